@@ -1,27 +1,128 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { GlobalConfig, ProjectInput, PhaseName, PhaseConfig } from './types';
-import { DEFAULT_CONFIG, INITIAL_PROJECTS, TEAMS } from './constants';
-import { generateSchedule, optimizeSchedule } from './services/scheduleEngine';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { PhaseName, PhaseConfig, ViewMode, WorkspaceState, OptimizationRun, ProjectInput, OverrideAnchor } from './types';
+import { DEFAULT_CONFIG, INITIAL_PROJECTS, TEAMS, DEFAULT_VIEW, MAX_OPTIMIZATION_RUNS } from './constants';
+import { generateSchedule, getProjectPeriod, writeOverride, setOverrideAnchor, removeStaffOverrides, OptimizationResult } from './services/scheduleEngine';
+import { findExclusion, describeConflict } from './services/independence';
+import { loadWorkspace, saveWorkspace, AutosaveEntry } from './services/workspaceStorage';
+import { parseWorkspaceFile, serializeWorkspace } from './services/workspaceFile';
+import { calculateBudgetVariance } from './services/scheduleMetrics';
 import { ProjectList } from './components/ProjectList';
 import { TeamMemberList } from './components/TeamMemberList';
 import { SkillList } from './components/SkillList';
-import { ScheduleTable, ViewMode } from './components/ScheduleTable';
+import { ScheduleTable } from './components/ScheduleTable';
 import { ConfigurationPanel } from './components/ConfigurationPanel';
-import { Calendar, Filter, LayoutGrid, Users, Award } from 'lucide-react';
-import { parseISO, startOfDay, endOfDay } from 'date-fns';
+import { WorkspaceRecoveryDialog } from './components/WorkspaceRecoveryDialog';
+import { ImportWizard } from './components/ImportWizard';
+import { ImportKind } from './services/spreadsheetImport';
+import { ScheduleImportDialog } from './components/ScheduleImportDialog';
+import { AssignmentRationalePanel } from './components/AssignmentRationalePanel';
+import { OptimizationReviewDialog } from './components/OptimizationReviewDialog';
+import { useUndoableWorkspace } from './hooks/useUndoableWorkspace';
+import { useScheduleOptimizer, OptimizerSettings } from './hooks/useScheduleOptimizer';
+import { Calendar, Filter, LayoutGrid, Users, Award, FileDown, FileUp, Undo2, Redo2 } from 'lucide-react';
+import { parseISO, startOfDay, endOfDay, format } from 'date-fns';
 
 const App: React.FC = () => {
-  const [config, setConfig] = useState<GlobalConfig>(DEFAULT_CONFIG);
-  const [projects, setProjects] = useState<ProjectInput[]>(INITIAL_PROJECTS);
+  // Read the persisted workspace once; a corrupt save falls back to defaults until the user recovers
+  const [initialLoad] = useState(() => loadWorkspace());
+  const saved = initialLoad.status === 'ok' ? initialLoad.state : null;
+
+  // Plan state with undo/redo history
+  const { config, projects, setConfig, setProjects, undo, redo, canUndo, canRedo } = useUndoableWorkspace({
+    config: saved?.config ?? DEFAULT_CONFIG,
+    projects: saved?.projects ?? INITIAL_PROJECTS
+  });
   const [isConfigOpen, setIsConfigOpen] = useState(false);
-  const [isOptimizing, setIsOptimizing] = useState(false);
-  const [viewMode, setViewMode] = useState<ViewMode>('project');
+  const [importKind, setImportKind] = useState<ImportKind | null>(null);
+  const [isScheduleImportOpen, setIsScheduleImportOpen] = useState(false);
+  // Rationale and warnings of the last Auto-Optimize run (not persisted)
+  const [optimizationReport, setOptimizationReport] = useState<Pick<OptimizationResult, 'rationales' | 'warnings'> | null>(null);
+  const [isOptimizationReportOpen, setIsOptimizationReportOpen] = useState(false);
+  const [pendingOptimization, setPendingOptimization] = useState<{ result: OptimizationResult; run: OptimizationRun; baseProjects: ProjectInput[] } | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>(saved?.view.viewMode ?? DEFAULT_VIEW.viewMode);
+
+  // Filter State (persisted with the workspace)
+  const [fromDate, setFromDate] = useState(saved?.view.fromDate ?? DEFAULT_VIEW.fromDate);
+  const [toDate, setToDate] = useState(saved?.view.toDate ?? DEFAULT_VIEW.toDate);
+  const [selectedTeam, setSelectedTeam] = useState(saved?.view.selectedTeam ?? DEFAULT_VIEW.selectedTeam);
+
+  // Recovery State: autosave is paused while the user decides, so the corrupt save isn't overwritten blindly
+  const [recovery, setRecovery] = useState(initialLoad.status === 'corrupt' ? initialLoad : null);
+
+  const applyWorkspace = (state: WorkspaceState) => {
+    setConfig(state.config);
+    setProjects(state.projects);
+    setViewMode(state.view.viewMode);
+    setFromDate(state.view.fromDate);
+    setToDate(state.view.toDate);
+    setSelectedTeam(state.view.selectedTeam);
+  };
+
+  const handleRestoreAutosave = (entry: AutosaveEntry) => {
+    applyWorkspace(entry.state);
+    setRecovery(null);
+  };
+
+  const workspaceInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportWorkspace = () => {
+    const blob = new Blob([serializeWorkspace(config, projects)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `AuditWorkspace_${format(new Date(), 'yyyyMMdd')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportWorkspace = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
 
-  // Filter State (UI only)
-  const [fromDate, setFromDate] = useState('2025-12-29'); // Set default to start of 2026 schedule week
-  const [toDate, setToDate] = useState('2026-03-30');
-  const [selectedTeam, setSelectedTeam] = useState('All Teams');
+    const result = parseWorkspaceFile(await file.text());
+    if ('errors' in result) {
+      alert(`Could not import "${file.name}":\n\n${result.errors.join('\n')}`);
+      return;
+    }
+
+    const upgradeNote = result.migratedFrom !== null ? `\n\nThe file was upgraded from schema version ${result.migratedFrom}.` : '';
+    if (!confirm(`Replace the current plan with ${result.projects.length} projects and ${result.config.staffTypes.length} team members from "${file.name}"?${upgradeNote}`)) return;
+
+    setConfig(result.config);
+    setProjects(result.projects);
+  };
+
+  // Undo/Redo shortcuts. Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Autosave on every change
+  useEffect(() => {
+    if (recovery) return;
+    saveWorkspace({
+      config,
+      projects,
+      view: { viewMode, fromDate, toDate, selectedTeam }
+    });
+  }, [config, projects, viewMode, fromDate, toDate, selectedTeam, recovery]);
 
   // Derive the display list of projects based on team filter.
   // This is used for the Project List Sidebar and the ScheduleTable (in Skill view).
@@ -30,21 +131,25 @@ const App: React.FC = () => {
     return projects.filter(p => p.team === selectedTeam);
   }, [projects, selectedTeam]);
 
-  // Recalculate schedule whenever config, projects, or filters change
+  // Schedule of the whole plan, recalculated only when config or projects change.
+  // Views and per-project metrics are derived from it rather than running the engine again.
+  const fullSchedule = useMemo(() => generateSchedule(projects, config), [projects, config]);
+
+  const budgetVariance = useMemo(() => calculateBudgetVariance(fullSchedule, projects), [fullSchedule, projects]);
+
+  // Apply the view's filters to the schedule
   const scheduleData = useMemo(() => {
-    // 1. Determine which projects to process in the engine
-    // If in Project or Skill view, we only want to process projects matching the selected team.
-    // If in Member view, we need ALL projects to ensure member total hours/utilization are calculated correctly across all their work.
-    let projectsToProcess = projects;
+    const fullData = fullSchedule;
+
+    // 1. Filter Rows by Team
+    // In Project or Skill view, only rows of projects matching the selected team are shown.
+    // In Member view, all projects count so member totals/utilization cover all their work;
+    // the rows are filtered to members of the selected team instead.
+    let processedRows = fullData.rows;
     if (selectedTeam !== 'All Teams' && (viewMode === 'project' || viewMode === 'skill')) {
-        projectsToProcess = projects.filter(p => p.team === selectedTeam);
+        const teamProjectIds = new Set(projectsDisplay.map(p => p.id));
+        processedRows = processedRows.filter(r => teamProjectIds.has(r.projectId));
     }
-    
-    const fullData = generateSchedule(projectsToProcess, config);
-    
-    // 2. Filter Rows for Member View
-    // If in Member view, we now filter the output rows to only show members of the selected team.
-    let processedRows = fullData.rows;
     if (selectedTeam !== 'All Teams' && viewMode === 'member') {
         const teamMemberIds = config.staffTypes
             .filter(s => s.team === selectedTeam)
@@ -85,50 +190,68 @@ const App: React.FC = () => {
         console.error("Error filtering dates", e);
         return { headers: fullData.headers, rows: processedRows };
     }
-  }, [projects, config, fromDate, toDate, selectedTeam, viewMode]);
-
-  const handleOptimize = async () => {
-    setIsOptimizing(true);
-    setTimeout(() => {
-      const { optimizedProjects, warnings } = optimizeSchedule(projects, config);
-      setProjects(optimizedProjects);
-      setIsOptimizing(false);
-
-      if (warnings.length > 0) {
-          const uniqueWarnings = Array.from(new Set(warnings));
-          const count = uniqueWarnings.length;
-          const msg = uniqueWarnings.slice(0, 5).join('\n');
-          const remaining = count - 5;
-          alert(`Optimization Completed with Warnings:\n\n${msg}${remaining > 0 ? `\n...and ${remaining} more.` : ''}\n\nSome placeholders were not filled because all eligible team members are already assigned to these projects.`);
-      }
-    }, 50);
+  }, [fullSchedule, projectsDisplay, config, fromDate, toDate, selectedTeam, viewMode]);
+
+  // Results are reviewed before anything is applied
+  const handleOptimizationResult = (result: OptimizationResult, run: OptimizationRun) => {
+      const warnings = run.stopped ? ['Stopped before finishing; this is the best plan found so far.', ...result.warnings] : result.warnings;
+      setOptimizationReport({ rationales: result.rationales, warnings });
+      setPendingOptimization({ result: { ...result, warnings }, run, baseProjects: optimizationBaseRef.current });
+  };
+
+  const handleApplyOptimization = (nextProjects: ProjectInput[]) => {
+      if (!pendingOptimization) return;
+      const { run } = pendingOptimization;
+      setProjects(nextProjects);
+      // Same tick as setProjects, so undo removes the plan and its history entry together
+      setConfig(prev => ({ ...prev, optimizationRuns: [run, ...(prev.optimizationRuns || [])].slice(0, MAX_OPTIMIZATION_RUNS) }));
+      setPendingOptimization(null);
+  };
+
+  const optimizer = useScheduleOptimizer(handleOptimizationResult);
+  const optimizationBaseRef = useRef<ProjectInput[]>([]);
+  const handleOptimize = (settings?: OptimizerSettings) => {
+      optimizationBaseRef.current = projects;
+      optimizer.start(projects, config, settings);
   };
 
   const handleCellUpdate = (projectId: string, staffTypeId: string, staffIndex: number, date: string, value: any, type: 'hours' | 'phase') => {
     setProjects(prev => prev.map(p => {
       if (p.id !== projectId) return p;
 
-      // Deep copy override structure to ensure immutability
-      const currentOverrides = p.overrides || {};
-      const newOverrides: any = { 
-        phase: { ...(currentOverrides.phase || {}) },
-        staff: { ...(currentOverrides.staff || {}) }
-      };
-
-      if (type === 'phase') {
-         newOverrides.phase[date] = value as PhaseName;
-      } else if (type === 'hours') {
-         const key = `${staffTypeId}-${staffIndex}`;
-         // Ensure the specific staff member's record is also a new object copy
-         newOverrides.staff[key] = { ...(newOverrides.staff[key] || {}) };
-         newOverrides.staff[key][date] = Number(value);
-      }
-
-      return { ...p, overrides: newOverrides };
+      // Overrides are immutable copies; the cell keeps its anchor, or takes the configured default
+      const target = type === 'phase' ? { date } : { date, staffKey: `${staffTypeId}-${staffIndex}` };
+      return writeOverride(p, config, target, type === 'phase' ? value as PhaseName : Number(value)) || p;
     }));
   };
 
+  const handleOverrideAnchorChange = (projectId: string, staffTypeId: string, staffIndex: number, date: string, anchor: OverrideAnchor) => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+    const target = staffTypeId ? { date, staffKey: `${staffTypeId}-${staffIndex}` } : { date };
+    const updated = setOverrideAnchor(project, config, target, anchor);
+    if (!updated) {
+        alert("This week is outside the project's phases, so the edit can only stay on its date.");
+        return;
+    }
+    setProjects(prev => prev.map(p => p.id === projectId ? updated : p));
+  };
+
+  // Explanation when an independence rule keeps the member off the project, otherwise null
+  const getIndependenceBlock = (staffTypeId: string, project: ProjectInput | undefined): string | null => {
+    const staff = config.staffTypes.find(s => s.id === staffTypeId);
+    if (!staff || !project) return null;
+    const exclusion = findExclusion(staff, project, getProjectPeriod(project, config));
+    return exclusion ? `${describeConflict(staff, project, exclusion)}\n\nChange the member's independence rules to assign them.` : null;
+  };
+
   const handleAssignmentChange = (projectId: string, oldStaffTypeId: string, newStaffTypeId: string) => {
+    const block = getIndependenceBlock(newStaffTypeId, projects.find(p => p.id === projectId));
+    if (block) {
+        alert(block);
+        return;
+    }
+
     setProjects(prev => prev.map(p => {
       if (p.id !== projectId) return p;
 
@@ -166,28 +289,19 @@ const App: React.FC = () => {
       });
 
       // Cleanup overrides for the old staff type to prevent ghost data
-      let newOverrides = p.overrides;
-      if (p.overrides?.staff) {
-          const staffOverrides = { ...p.overrides.staff };
-          let hasChanges = false;
-          
-          Object.keys(staffOverrides).forEach(key => {
-              if (key.startsWith(oldStaffTypeId + '-')) {
-                  delete staffOverrides[key];
-                  hasChanges = true;
-              }
-          });
-          
-          if (hasChanges) {
-            newOverrides = { ...p.overrides, staff: staffOverrides };
-          }
-      }
+      const newOverrides = removeStaffOverrides(p.overrides, key => key.startsWith(oldStaffTypeId + '-'));
 
       return { ...p, phasesConfig: newPhases, overrides: newOverrides };
     }));
   };
 
   const handleAddAssignment = (projectId: string, specificStaffId?: string) => {
+    const block = specificStaffId && getIndependenceBlock(specificStaffId, projects.find(p => p.id === projectId));
+    if (block) {
+        alert(block);
+        return;
+    }
+
     setProjects(prev => prev.map(p => {
       if (p.id !== projectId) return p;
 
@@ -202,10 +316,10 @@ const App: React.FC = () => {
       
       if (!specificStaffId) {
           if (assignedIds.has(candidateId)) {
-              const candidate = config.staffTypes.find(s => !assignedIds.has(s.id));
+              const candidate = config.staffTypes.find(s => !assignedIds.has(s.id) && !getIndependenceBlock(s.id, p));
               if (candidate) candidateId = candidate.id;
               else {
-                  alert("All available staff roles are already assigned to this project.");
+                  alert("All available staff roles are already assigned to this project or barred by independence rules.");
                   return p; 
               }
           }
@@ -233,14 +347,8 @@ const App: React.FC = () => {
         // If index > 1, it implies a split row driven by overrides.
         // We remove the overrides for this specific index to delete the split row.
         if (staffIndex > 1) {
-            const overrides = { ...(p.overrides || {}) };
-            if (overrides.staff) {
-               const newStaffOverrides = { ...overrides.staff };
-               const keyToRemove = `${staffTypeId}-${staffIndex}`;
-               if (newStaffOverrides[keyToRemove]) delete newStaffOverrides[keyToRemove];
-               overrides.staff = newStaffOverrides;
-            }
-            return { ...p, overrides };
+            const keyToRemove = `${staffTypeId}-${staffIndex}`;
+            return { ...p, overrides: removeStaffOverrides(p.overrides, key => key === keyToRemove) };
         }
 
         // If index == 1, remove the staff member from the project entirely
@@ -251,16 +359,7 @@ const App: React.FC = () => {
         }));
 
         // Clean up ALL overrides for this staff type
-        const overrides = { ...(p.overrides || {}) };
-        if (overrides.staff) {
-            const newStaffOverrides = { ...overrides.staff };
-            Object.keys(newStaffOverrides).forEach(key => {
-                if (key.startsWith(`${staffTypeId}-`)) {
-                    delete newStaffOverrides[key];
-                }
-            });
-            overrides.staff = newStaffOverrides;
-        }
+        const overrides = removeStaffOverrides(p.overrides, key => key.startsWith(`${staffTypeId}-`));
 
         return { ...p, phasesConfig: newPhases, overrides };
     }));
@@ -282,6 +381,12 @@ const App: React.FC = () => {
   };
 
   const handleProjectChange = (staffTypeId: string, oldProjectId: string, newProjectId: string) => {
+     const block = getIndependenceBlock(staffTypeId, projects.find(p => p.id === newProjectId));
+     if (block) {
+         alert(block);
+         return;
+     }
+
      // We need to perform two operations atomically on the projects state to avoid race conditions
      setProjects(prev => {
         return prev.map(p => {
@@ -293,14 +398,7 @@ const App: React.FC = () => {
                     staffAllocation: ph.staffAllocation.filter(sa => sa.staffTypeId !== staffTypeId)
                 }));
                 // Clean overrides
-                const overrides = { ...(p.overrides || {}) };
-                if (overrides.staff) {
-                    const newStaffOverrides = { ...overrides.staff };
-                    Object.keys(newStaffOverrides).forEach(key => {
-                        if (key.startsWith(`${staffTypeId}-`)) delete newStaffOverrides[key];
-                    });
-                    overrides.staff = newStaffOverrides;
-                }
+                const overrides = removeStaffOverrides(p.overrides, key => key.startsWith(`${staffTypeId}-`));
                 return { ...p, phasesConfig: newPhases, overrides };
             }
             
@@ -328,17 +426,23 @@ const App: React.FC = () => {
           case 'skill':
               return <SkillList config={config} setConfig={setConfig} />;
           case 'member':
-              return <TeamMemberList config={config} setConfig={setConfig} />;
+              return <TeamMemberList config={config} setConfig={setConfig} projects={projects} setProjects={setProjects} onImport={() => setImportKind('staff')} />;
           case 'project':
           default:
               return (
                 <ProjectList 
                     projects={projectsDisplay} 
+                    allProjects={projects}
+                    budgetVariance={budgetVariance}
                     setProjects={setProjects} 
                     currentConfig={config} 
                     onOptimize={handleOptimize}
-                    isOptimizing={isOptimizing}
+                    isOptimizing={optimizer.isOptimizing}
+                    optimizationProgress={optimizer.progress}
+                    onStopOptimize={optimizer.stop}
+                    onShowOptimizationReport={optimizationReport ? () => setIsOptimizationReportOpen(true) : undefined}
                     onConfigure={() => setIsConfigOpen(true)}
+                    onImport={() => setImportKind('projects')}
                 />
               );
       }
@@ -405,6 +509,53 @@ const App: React.FC = () => {
                 </div>
             </div>
 
+            {/* History */}
+            <div className="flex items-center bg-slate-800 rounded-lg p-1 border border-slate-700">
+                <button
+                    onClick={undo}
+                    disabled={!canUndo}
+                    className="p-1 text-slate-300 hover:text-white hover:bg-slate-700/50 rounded-md transition-all disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                    title="Undo (Ctrl+Z)"
+                >
+                    <Undo2 className="w-3.5 h-3.5" />
+                </button>
+                <button
+                    onClick={redo}
+                    disabled={!canRedo}
+                    className="p-1 text-slate-300 hover:text-white hover:bg-slate-700/50 rounded-md transition-all disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                    title="Redo (Ctrl+Shift+Z)"
+                >
+                    <Redo2 className="w-3.5 h-3.5" />
+                </button>
+            </div>
+
+            {/* Workspace File */}
+            <div className="flex items-center bg-slate-800 rounded-lg p-1 border border-slate-700">
+                <button
+                    onClick={handleExportWorkspace}
+                    className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-slate-300 hover:text-white hover:bg-slate-700/50 rounded-md transition-all"
+                    title="Export workspace to a JSON file"
+                >
+                    <FileDown className="w-3.5 h-3.5" />
+                    Export
+                </button>
+                <button
+                    onClick={() => workspaceInputRef.current?.click()}
+                    className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-slate-300 hover:text-white hover:bg-slate-700/50 rounded-md transition-all"
+                    title="Import workspace from a JSON file"
+                >
+                    <FileUp className="w-3.5 h-3.5" />
+                    Import
+                </button>
+                <input
+                    ref={workspaceInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={handleImportWorkspace}
+                />
+            </div>
+
             {/* Team Filter */}
             <div className="flex items-center">
                 <div className="relative">
@@ -436,13 +587,16 @@ const App: React.FC = () => {
           <ScheduleTable 
             data={scheduleData} 
             projects={projectsDisplay}
+            allProjects={projects}
             config={config}
             onCellUpdate={handleCellUpdate} 
+            onOverrideAnchorChange={handleOverrideAnchorChange}
             onAssignmentChange={handleAssignmentChange}
             onAddAssignment={handleAddAssignment}
             onRemoveAssignment={handleRemoveAssignment}
             onAddProjectToMember={handleAddProjectToMember}
             onProjectChange={handleProjectChange}
+            onImportEdits={() => setIsScheduleImportOpen(true)}
             viewMode={viewMode}
             onViewModeChange={setViewMode}
           />
@@ -453,9 +607,68 @@ const App: React.FC = () => {
       <ConfigurationPanel 
         config={config} 
         setConfig={setConfig} 
+        projects={projects}
+        setProjects={setProjects}
         isOpen={isConfigOpen} 
         onClose={() => setIsConfigOpen(false)} 
+        onImportHistory={() => setImportKind('history')}
       />
+
+      {/* Spreadsheet Import Wizard */}
+      {importKind && (
+        <ImportWizard
+          kind={importKind}
+          config={config}
+          projects={projects}
+          onApply={(next) => {
+            setConfig(next.config);
+            if (next.projects) setProjects(next.projects);
+          }}
+          onClose={() => setImportKind(null)}
+        />
+      )}
+
+      {/* Excel Round-Trip Import */}
+      {pendingOptimization && (
+        <OptimizationReviewDialog
+          baseProjects={pendingOptimization.baseProjects}
+          proposedProjects={pendingOptimization.result.optimizedProjects}
+          projects={projects}
+          config={config}
+          warnings={pendingOptimization.result.warnings}
+          onApply={handleApplyOptimization}
+          onShowRationale={() => setIsOptimizationReportOpen(true)}
+          onClose={() => setPendingOptimization(null)}
+        />
+      )}
+
+      {isOptimizationReportOpen && optimizationReport && (
+        <AssignmentRationalePanel
+          rationales={optimizationReport.rationales}
+          warnings={optimizationReport.warnings}
+          onClose={() => setIsOptimizationReportOpen(false)}
+        />
+      )}
+
+      {isScheduleImportOpen && (
+        <ScheduleImportDialog
+          schedule={fullSchedule}
+          projects={projects}
+          config={config}
+          onApply={setProjects}
+          onClose={() => setIsScheduleImportOpen(false)}
+        />
+      )}
+
+      {/* Recovery Modal */}
+      {recovery && (
+        <WorkspaceRecoveryDialog
+          error={recovery.error}
+          autosaves={recovery.autosaves}
+          onRestore={handleRestoreAutosave}
+          onStartFresh={() => setRecovery(null)}
+        />
+      )}
     </div>
   );
 };
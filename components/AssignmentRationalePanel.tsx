@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { AssignmentRationale } from '../services/scheduleEngine';
+import { buildRationaleWorkbook } from '../services/reportWorkbook';
+import { X, FileDown, AlertTriangle, ChevronDown, ChevronRight, UserCheck } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AssignmentRationalePanelProps {
+  rationales: AssignmentRationale[];
+  warnings: string[];
+  onClose: () => void;
+}
+
+const formatScore = (value: number) => (Math.round(value * 10) / 10).toLocaleString();
+
+export const AssignmentRationalePanel: React.FC<AssignmentRationalePanelProps> = ({ rationales, warnings, onClose }) => {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const toggle = (idx: number) => {
+    const next = new Set(expanded);
+    if (next.has(idx)) next.delete(idx);
+    else next.add(idx);
+    setExpanded(next);
+  };
+
+  const handleExport = () => {
+    const wb = buildRationaleWorkbook(rationales);
+    XLSX.writeFile(wb, `AssignmentRationale_${format(new Date(), 'yyyyMMdd')}.xlsx`);
+  };
+
+  const uniqueWarnings = Array.from(new Set(warnings));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+        <div
+            className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity"
+            onClick={onClose}
+        />
+        <div className="relative w-full max-w-3xl bg-white rounded-xl shadow-2xl transform transition-all flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200 h-[640px]">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50 shrink-0">
+                <h3 className="text-lg font-bold text-slate-800">Optimization Results</h3>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={handleExport}
+                        disabled={rationales.length === 0}
+                        className="flex items-center gap-1.5 bg-white border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 text-slate-600 px-2 py-1.5 rounded-lg text-xs font-semibold transition-all shadow-sm active:scale-95 disabled:opacity-50"
+                    >
+                        <FileDown className="w-3.5 h-3.5" />
+                        Export
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-full hover:bg-slate-200 text-slate-400 hover:text-slate-600 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-6 space-y-5 flex-1 overflow-y-auto custom-scrollbar">
+                {uniqueWarnings.length > 0 && (
+                    <div className="p-3 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-800 space-y-1">
+                        {uniqueWarnings.map(w => (
+                            <div key={w} className="flex items-start gap-2">
+                                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                                <span>{w}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1.5">Placeholder Assignments ({rationales.length})</label>
+                    {rationales.length === 0 ? (
+                        <div className="p-4 text-center text-slate-400 text-xs italic border-2 border-dashed border-slate-100 rounded-lg">
+                            No placeholders needed filling.
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            {rationales.map((r, idx) => {
+                                const winner = r.candidates.find(c => c.staffTypeId === r.winnerId);
+                                const isExpanded = expanded.has(idx);
+                                return (
+                                <div key={idx} className="border border-slate-200 rounded-lg overflow-hidden">
+                                    <button
+                                        onClick={() => toggle(idx)}
+                                        className="w-full flex items-start gap-2 p-3 text-left hover:bg-slate-50 transition-colors"
+                                    >
+                                        {isExpanded ? <ChevronDown className="w-4 h-4 text-slate-400 mt-0.5" /> : <ChevronRight className="w-4 h-4 text-slate-400 mt-0.5" />}
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center gap-2 text-sm">
+                                                <span className="font-medium text-slate-700 truncate">{r.projectName}</span>
+                                                <span className="text-[10px] text-slate-400 uppercase tracking-wider">{r.phase} · {r.requirement} · {formatScore(r.hours)}h</span>
+                                            </div>
+                                            <div className="text-xs text-slate-500 mt-0.5">{r.reason}</div>
+                                        </div>
+                                        {winner ? (
+                                            <span className="flex items-center gap-1 text-xs font-medium text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded shrink-0">
+                                                <UserCheck className="w-3.5 h-3.5" />
+                                                {winner.name}
+                                            </span>
+                                        ) : (
+                                            <span className="text-xs font-medium text-red-600 bg-red-50 px-2 py-0.5 rounded shrink-0">Unfilled</span>
+                                        )}
+                                    </button>
+
+                                    {isExpanded && (
+                                        <div className="border-t border-slate-100 bg-slate-50/50 px-3 py-2">
+                                            <table className="w-full text-xs">
+                                                <thead>
+                                                    <tr className="text-[10px] uppercase tracking-wider text-slate-400">
+                                                        <th className="text-left font-bold py-1">Candidate</th>
+                                                        <th className="text-right font-bold py-1">Team</th>
+                                                        <th className="text-right font-bold py-1">Skills</th>
+                                                        <th className="text-right font-bold py-1">Overtime</th>
+                                                        <th className="text-right font-bold py-1">Utilization</th>
+                                                        <th className="text-right font-bold py-1">Rotation</th>
+                                                        <th className="text-right font-bold py-1">Total</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {r.candidates.map(c => (
+                                                        <tr key={c.staffTypeId} className={c.staffTypeId === r.winnerId ? 'font-semibold text-emerald-700' : 'text-slate-600'}>
+                                                            <td className="py-0.5">{c.name}</td>
+                                                            <td className="text-right font-mono">{formatScore(c.team)}</td>
+                                                            <td className="text-right font-mono">{formatScore(c.skills)}</td>
+                                                            <td className="text-right font-mono" title={c.overtimeHours > 0 ? `${formatScore(c.overtimeHours)}h above capacity` : undefined}>{formatScore(c.overtime)}</td>
+                                                            <td className="text-right font-mono">{formatScore(c.utilization)}</td>
+                                                            <td className="text-right font-mono">{formatScore(c.rotation)}</td>
+                                                            <td className="text-right font-mono">{formatScore(c.total)}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                            {r.excluded.length > 0 && (
+                                                <div className="text-[10px] text-slate-400 mt-1.5">Not considered (already on the project): {r.excluded.join(', ')}</div>
+                                            )}
+                                            {r.mismatched.length > 0 && (
+                                                <div className="text-[10px] text-slate-400 mt-1">Wrong role or level for this placeholder: {r.mismatched.join(', ')}</div>
+                                            )}
+                                            {r.conflicted.length > 0 && (
+                                                <div className="text-[10px] text-slate-400 mt-1">Barred by independence or rotation rules: {r.conflicted.join(', ')}</div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            )})}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,39 +1,96 @@
 
 import React from 'react';
-import { GlobalConfig, PhaseName, StaffType } from '../types';
-import { TEAMS } from '../constants';
-import { X, Settings, Users, PieChart, AlertCircle, CheckCircle2, Trash2, Plus, User } from 'lucide-react';
+import { GlobalConfig, PhaseName, StaffType, PlanningHorizon, ProjectInput, OverrideAnchor, PlaceholderRequirement, SkillLevel } from '../types';
+import { TEAMS, DEFAULT_HORIZON, HOURS_GRANULARITY_OPTIONS } from '../constants';
+import { getPlanningWeeks, getPhaseDuration, getHoursGranularity, getDefaultOverrideAnchor, removeStaffFromProjects } from '../services/scheduleEngine';
+import { HolidayCalendarEditor } from './HolidayCalendarEditor';
+import { ScoringProfileEditor } from './ScoringProfileEditor';
+import { RotationSettings } from './RotationSettings';
+import { getMemberRoles, SKILL_LEVEL_ORDER } from '../services/placeholders';
+import { X, Settings, Users, PieChart, AlertCircle, CheckCircle2, Trash2, Plus, User, CalendarRange, UserPlus } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 
 interface ConfigurationPanelProps {
   config: GlobalConfig;
   setConfig: React.Dispatch<React.SetStateAction<GlobalConfig>>;
+  projects: ProjectInput[];
+  setProjects: React.Dispatch<React.SetStateAction<ProjectInput[]>>;
   isOpen: boolean;
   onClose: () => void;
+  onImportHistory?: () => void;
 }
 
-export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config, setConfig, isOpen, onClose }) => {
+export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config, setConfig, projects, setProjects, isOpen, onClose, onImportHistory }) => {
   if (!isOpen) return null;
 
+  // Phase updates copy the edited phase so earlier undo snapshots are not mutated
   const updatePhase = (phaseIndex: number, field: string, value: any) => {
-    const newPhases = [...config.phases];
-    (newPhases[phaseIndex] as any)[field] = value;
+    const newPhases = config.phases.map((p, i) => i === phaseIndex ? { ...p, [field]: value } : p);
     setConfig({ ...config, phases: newPhases });
   };
 
   const updateStaffAllocation = (phaseIndex: number, staffTypeId: string, percentage: number) => {
-    const newPhases = [...config.phases];
-    const allocationIndex = newPhases[phaseIndex].staffAllocation.findIndex(s => s.staffTypeId === staffTypeId);
-    if (allocationIndex >= 0) {
-      newPhases[phaseIndex].staffAllocation[allocationIndex].percentage = percentage;
-    }
+    const newPhases = config.phases.map((p, i) => i !== phaseIndex ? p : {
+      ...p,
+      staffAllocation: p.staffAllocation.map(s => s.staffTypeId === staffTypeId ? { ...s, percentage } : s)
+    });
     setConfig({ ...config, phases: newPhases });
   };
 
+  const horizon = config.horizon || DEFAULT_HORIZON;
+  const planningWeeks = getPlanningWeeks(config);
+
+  const updateHorizon = (field: keyof PlanningHorizon, value: any) => {
+    setConfig({ ...config, horizon: { ...horizon, [field]: value } });
+  };
+
   const updateStaffType = (staffId: string, field: keyof StaffType, value: any) => {
     const newStaff = config.staffTypes.map(s => s.id === staffId ? { ...s, [field]: value } : s);
     setConfig({ ...config, staffTypes: newStaff });
   };
 
+  const updatePlaceholder = (staff: StaffType, changes: Partial<PlaceholderRequirement>) => {
+    updateStaffType(staff.id, 'placeholder', { ...staff.placeholder, ...changes });
+  };
+
+  // Typed placeholders are named after their role until renamed
+  const changePlaceholderRole = (staff: StaffType, role: string) => {
+    const newStaff = config.staffTypes.map(s => s.id !== staff.id ? s : {
+        ...s,
+        role,
+        name: s.name === `Open ${s.role}` ? `Open ${role}` : s.name
+    });
+    setConfig({ ...config, staffTypes: newStaff });
+  };
+
+  const memberRoles = getMemberRoles(config);
+
+  const addPlaceholder = () => {
+    const newId = `placeholder-${Date.now()}`;
+    const role = memberRoles[0] || 'New Role';
+    const placeholder: StaffType = {
+        id: newId,
+        name: `Open ${role}`,
+        role,
+        maxHoursPerWeek: 40,
+        color: 'bg-slate-200 text-slate-500',
+        team: 'General',
+        placeholder: {}
+    };
+
+    // Same as members: every phase gets a 0% allocation so projects can use it
+    const updatedPhases = config.phases.map(p => ({
+        ...p,
+        staffAllocation: [...p.staffAllocation, { staffTypeId: newId, percentage: 0 }]
+    }));
+
+    setConfig({
+        ...config,
+        staffTypes: [...config.staffTypes, placeholder],
+        phases: updatedPhases
+    });
+  };
+
   const addStaffType = () => {
     const newId = `role-${Date.now()}`;
     const colors = [
@@ -84,6 +141,9 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
         staffTypes: newStaffTypes,
         phases: newPhases
     });
+
+    // Remove from project assignments and manual edits
+    setProjects(prev => removeStaffFromProjects(prev, new Set([id])));
   };
 
   const totalBudgetPercent = config.phases.reduce((acc, p) => acc + p.percentBudget, 0);
@@ -103,6 +163,68 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
         </div>
 
         <div className="flex-1 overflow-y-auto p-6 space-y-8 custom-scrollbar">
+
+          {/* Planning Horizon Section */}
+          <section>
+            <div className="flex justify-between items-center mb-4 border-b pb-2">
+                <h3 className="text-md font-bold text-slate-800 flex items-center gap-2">
+                    <CalendarRange className="w-4 h-4" />
+                    Planning Horizon
+                </h3>
+                {planningWeeks.headers.length > 0 && (
+                    <span className="text-xs text-slate-500">
+                        {format(parseISO(planningWeeks.headers[0]), 'dd MMM yyyy')} – {format(parseISO(planningWeeks.headers[planningWeeks.headers.length - 1]), 'dd MMM yyyy')} ({planningWeeks.headers.length} weeks)
+                    </span>
+                )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+                <div>
+                    <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">Base Year</label>
+                    <input
+                        type="number"
+                        className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                        value={config.year}
+                        onChange={(e) => {
+                            const year = parseInt(e.target.value);
+                            if (!isNaN(year)) setConfig({ ...config, year });
+                        }}
+                    />
+                </div>
+                <div>
+                    <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">Horizon</label>
+                    <select
+                        className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                        value={horizon.mode}
+                        onChange={(e) => updateHorizon('mode', e.target.value)}
+                    >
+                        <option value="year">Calendar year</option>
+                        <option value="months">Months from January</option>
+                        <option value="rolling">Rolling from this week</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">Length</label>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="number"
+                            min="1"
+                            max="60"
+                            disabled={horizon.mode === 'year'}
+                            className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+                            value={horizon.mode === 'year' ? 12 : horizon.months}
+                            onChange={(e) => updateHorizon('months', Math.min(60, Math.max(1, parseInt(e.target.value) || 1)))}
+                        />
+                        <span className="text-xs text-slate-400 shrink-0">months</span>
+                    </div>
+                </div>
+            </div>
+            <p className="text-[10px] text-slate-400 mt-2">
+                Projects keep their own start dates; the horizon only controls which weeks are shown and where the optimizer may move them.
+            </p>
+          </section>
+
+          <HolidayCalendarEditor config={config} setConfig={setConfig} />
           
           {/* Staff Config Section */}
           <section>
@@ -111,13 +233,23 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
                     <Users className="w-4 h-4" />
                     Staff Roles & Constraints
                 </h3>
-                <button 
-                    onClick={addStaffType}
-                    className="text-xs flex items-center gap-1 bg-indigo-50 text-indigo-600 hover:bg-indigo-100 hover:text-indigo-700 px-2 py-1 rounded-md font-medium transition-colors"
-                >
-                    <Plus className="w-3 h-3" />
-                    Add Role
-                </button>
+                <div className="flex items-center gap-2">
+                    <button 
+                        onClick={addPlaceholder}
+                        className="text-xs flex items-center gap-1 bg-slate-100 text-slate-600 hover:bg-slate-200 hover:text-slate-700 px-2 py-1 rounded-md font-medium transition-colors"
+                        title="Open slot that Auto-Optimize only fills with members of the chosen role"
+                    >
+                        <UserPlus className="w-3 h-3" />
+                        Add Placeholder
+                    </button>
+                    <button 
+                        onClick={addStaffType}
+                        className="text-xs flex items-center gap-1 bg-indigo-50 text-indigo-600 hover:bg-indigo-100 hover:text-indigo-700 px-2 py-1 rounded-md font-medium transition-colors"
+                    >
+                        <Plus className="w-3 h-3" />
+                        Add Role
+                    </button>
+                </div>
             </div>
             
             <div className="space-y-4">
@@ -126,14 +258,30 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
                     <div className="flex items-center gap-3 mb-3">
                         <div className={`w-3 h-3 rounded-full shrink-0 ${staff.color.split(' ')[0]}`}></div>
                         <div className="flex-1">
-                            <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-0.5">Role Title</label>
-                            <input 
-                                type="text"
-                                className="w-full font-bold text-slate-700 bg-transparent border-b border-transparent hover:border-indigo-200 focus:border-indigo-500 outline-none text-sm px-0 transition-colors placeholder:font-normal placeholder:text-slate-400"
-                                value={staff.role}
-                                placeholder="Role Title (e.g. Audit Lead)"
-                                onChange={(e) => updateStaffType(staff.id, 'role', e.target.value)}
-                            />
+                            {staff.placeholder ? (
+                                <>
+                                    <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-0.5">Placeholder For Role</label>
+                                    <select
+                                        className="w-full font-bold text-slate-700 bg-transparent border-b border-transparent hover:border-indigo-200 focus:border-indigo-500 outline-none text-sm px-0 transition-colors"
+                                        value={staff.role}
+                                        onChange={(e) => changePlaceholderRole(staff, e.target.value)}
+                                    >
+                                        {!memberRoles.includes(staff.role) && <option value={staff.role}>{staff.role}</option>}
+                                        {memberRoles.map(role => <option key={role} value={role}>{role}</option>)}
+                                    </select>
+                                </>
+                            ) : (
+                                <>
+                                    <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-0.5">Role Title</label>
+                                    <input 
+                                        type="text"
+                                        className="w-full font-bold text-slate-700 bg-transparent border-b border-transparent hover:border-indigo-200 focus:border-indigo-500 outline-none text-sm px-0 transition-colors placeholder:font-normal placeholder:text-slate-400"
+                                        value={staff.role}
+                                        placeholder="Role Title (e.g. Audit Lead)"
+                                        onChange={(e) => updateStaffType(staff.id, 'role', e.target.value)}
+                                    />
+                                </>
+                            )}
                         </div>
                         <button 
                             onClick={() => deleteStaffType(staff.id)}
@@ -146,7 +294,7 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
                     
                     <div className="grid grid-cols-2 gap-4">
                         <div>
-                            <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">Representative Name</label>
+                            <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">{staff.placeholder ? 'Label' : 'Representative Name'}</label>
                             <div className="flex items-center gap-1.5 bg-white border border-slate-200 rounded px-2 py-1.5 focus-within:ring-1 focus-within:ring-indigo-500 focus-within:border-indigo-500">
                                 <User className="w-3 h-3 text-slate-400" />
                                 <input 
@@ -158,6 +306,30 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
                                 />
                             </div>
                         </div>
+                        {staff.placeholder ? (
+                        <div>
+                             <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">Minimum Skill Level</label>
+                             <div className="flex items-center gap-2">
+                                <select
+                                    className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                    value={staff.placeholder.skill || ''}
+                                    onChange={(e) => updatePlaceholder(staff, { skill: e.target.value || undefined, minLevel: e.target.value ? staff.placeholder!.minLevel || 'Intermediate' : undefined })}
+                                >
+                                    <option value="">No skill requirement</option>
+                                    {config.skills.map(skill => <option key={skill} value={skill}>{skill}</option>)}
+                                </select>
+                                <select
+                                    className="w-28 shrink-0 px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+                                    value={staff.placeholder.minLevel || ''}
+                                    disabled={!staff.placeholder.skill}
+                                    onChange={(e) => updatePlaceholder(staff, { minLevel: e.target.value as SkillLevel })}
+                                >
+                                    {!staff.placeholder.skill && <option value="">Any level</option>}
+                                    {SKILL_LEVEL_ORDER.filter(l => l !== 'None').map(level => <option key={level} value={level}>{level === 'Advanced' ? level : `${level}+`}</option>)}
+                                </select>
+                             </div>
+                        </div>
+                        ) : (
                         <div>
                              <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">Capacity</label>
                              <div className="flex items-center gap-2">
@@ -170,6 +342,7 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
                                 <span className="text-xs text-slate-400 shrink-0">hrs/wk</span>
                              </div>
                         </div>
+                        )}
                     </div>
                 </div>
               ))}
@@ -189,9 +362,32 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
                 <PieChart className="w-4 h-4" />
                 Phase Definitions & Allocations
               </h3>
-              <div className={`text-sm flex items-center gap-1 font-medium ${isBudgetValid ? 'text-emerald-600' : 'text-amber-600'}`}>
-                {isBudgetValid ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
-                Total Budget: {totalBudgetPercent}%
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-1.5 text-xs text-slate-500" title="Where new manual edits in the schedule are kept when a project's start week changes; each edit can be switched from its cell">
+                  Manual edits
+                  <select
+                      className="px-1.5 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                      value={getDefaultOverrideAnchor(config)}
+                      onChange={(e) => setConfig({ ...config, overrideAnchor: e.target.value as OverrideAnchor })}
+                  >
+                      <option value="date">Stay on date</option>
+                      <option value="project">Move with project</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-1.5 text-xs text-slate-500" title="Weekly hours are planned in multiples of this step; the remainder goes into the last week so totals match the budget">
+                  Hours in steps of
+                  <select
+                      className="px-1.5 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                      value={getHoursGranularity(config)}
+                      onChange={(e) => setConfig({ ...config, hoursGranularity: parseFloat(e.target.value) })}
+                  >
+                      {HOURS_GRANULARITY_OPTIONS.map(step => <option key={step} value={step}>{step}h</option>)}
+                  </select>
+                </label>
+                <div className={`text-sm flex items-center gap-1 font-medium ${isBudgetValid ? 'text-emerald-600' : 'text-amber-600'}`}>
+                  {isBudgetValid ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                  Total Budget: {totalBudgetPercent}%
+                </div>
               </div>
             </div>
             
@@ -218,7 +414,7 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
                   </div>
                   
                   <div className="p-4 space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
+                    <div className="grid grid-cols-3 gap-4">
                       <div>
                         <label className="block text-xs font-medium text-slate-500 mb-1">Min Weeks</label>
                         <input 
@@ -237,6 +433,18 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
                           onChange={(e) => updatePhase(idx, 'maxWeeks', parseInt(e.target.value))}
                         />
                       </div>
+                      <div>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">Default Weeks</label>
+                        <input 
+                          type="number" 
+                          min={phase.minWeeks}
+                          max={phase.maxWeeks}
+                          className="w-full px-2 py-1 border rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                          value={getPhaseDuration(phase)}
+                          onChange={(e) => updatePhase(idx, 'weeks', parseInt(e.target.value))}
+                          title="Duration given to new projects; must lie between min and max"
+                        />
+                      </div>
                     </div>
 
                     <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
@@ -287,6 +495,9 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ config,
             </div>
           </section>
 
+          <ScoringProfileEditor config={config} setConfig={setConfig} />
+
+          <RotationSettings config={config} setConfig={setConfig} projects={projects} onImportHistory={onImportHistory} />
         </div>
         <div className="p-4 border-t bg-slate-50 text-right">
           <button onClick={onClose} className="px-6 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-900 transition-colors">
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { GlobalConfig, HolidayCalendar, Holiday } from '../types';
+import { TEAMS } from '../constants';
+import { parseICalendar } from '../services/icalImport';
+import { getPlanningWeeks } from '../services/scheduleEngine';
+import { CalendarX2, Plus, Trash2, Upload, ChevronDown, ChevronRight } from 'lucide-react';
+import { addWeeks, format, parseISO } from 'date-fns';
+
+interface HolidayCalendarEditorProps {
+  config: GlobalConfig;
+  setConfig: React.Dispatch<React.SetStateAction<GlobalConfig>>;
+}
+
+// Keeps one entry per date, sorted, so imports can be repeated without duplicates
+const mergeHolidays = (existing: Holiday[], incoming: Holiday[]): Holiday[] => {
+  const byDate = new Map(existing.map(h => [h.date, h]));
+  incoming.forEach(h => { if (!byDate.has(h.date)) byDate.set(h.date, h); });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const HolidayCalendarEditor: React.FC<HolidayCalendarEditorProps> = ({ config, setConfig }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [newHolidayDate, setNewHolidayDate] = useState('');
+  const [newHolidayName, setNewHolidayName] = useState('');
+
+  const calendars = config.holidayCalendars || [];
+  const locations = Array.from(new Set(config.staffTypes.map(s => s.location).filter(Boolean))) as string[];
+
+  const setCalendars = (next: HolidayCalendar[]) => setConfig({ ...config, holidayCalendars: next });
+
+  const updateCalendar = (id: string, changes: Partial<HolidayCalendar>) => {
+    setCalendars(calendars.map(c => c.id === id ? { ...c, ...changes } : c));
+  };
+
+  const addCalendar = () => {
+    const id = `cal-${Date.now()}`;
+    setCalendars([...calendars, { id, name: 'Public Holidays', scopeType: 'organization', holidays: [], blockFieldwork: false }]);
+    setExpanded(new Set(expanded).add(id));
+  };
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpanded(next);
+  };
+
+  const handleIcsFile = async (calendar: HolidayCalendar, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      // Recurring holidays are repeated to the end of the planning horizon
+      const weeks = getPlanningWeeks(config);
+      const result = parseICalendar(await file.text(), addWeeks(weeks.start, weeks.headers.length));
+      if (result.holidays.length === 0) {
+        alert(`No events with dates were found in "${file.name}".`);
+        return;
+      }
+      updateCalendar(calendar.id, {
+        holidays: mergeHolidays(calendar.holidays, result.holidays),
+        name: calendar.holidays.length === 0 && result.calendarName ? result.calendarName : calendar.name
+      });
+      const notes: string[] = [];
+      if (result.skipped > 0) notes.push(`${result.skipped} events without a start date were skipped.`);
+      if (result.skippedRecurrences > 0) {
+        notes.push(`${result.skippedRecurrences} recurring events use a repeat rule that is not supported; only their first date was imported.`);
+      }
+      if (notes.length > 0) alert(notes.join('\n'));
+    } catch (err) {
+      console.error('Error reading iCal file', err);
+      alert(`Could not read "${file.name}" as an iCal file.`);
+    }
+  };
+
+  const addHoliday = (calendar: HolidayCalendar) => {
+    if (!newHolidayDate) return;
+    updateCalendar(calendar.id, { holidays: mergeHolidays(calendar.holidays, [{ date: newHolidayDate, name: newHolidayName.trim() || 'Holiday' }]) });
+    setNewHolidayDate('');
+    setNewHolidayName('');
+  };
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-md font-bold text-slate-800 flex items-center gap-2">
+              <CalendarX2 className="w-4 h-4" />
+              Holiday Calendars
+          </h3>
+          <button
+              onClick={addCalendar}
+              className="text-xs flex items-center gap-1 bg-indigo-50 text-indigo-600 hover:bg-indigo-100 hover:text-indigo-700 px-2 py-1 rounded-md font-medium transition-colors"
+          >
+              <Plus className="w-3 h-3" />
+              Add Calendar
+          </button>
+      </div>
+
+      <div className="space-y-3">
+        {calendars.map(calendar => {
+          const isExpanded = expanded.has(calendar.id);
+          return (
+          <div key={calendar.id} className="p-3 bg-slate-50 rounded-lg border border-slate-200 shadow-sm">
+              <div className="flex items-center gap-2">
+                  <button onClick={() => toggleExpanded(calendar.id)} className="text-slate-400 hover:text-indigo-600">
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  </button>
+                  <input
+                      type="text"
+                      className="flex-1 font-bold text-slate-700 bg-transparent border-b border-transparent hover:border-indigo-200 focus:border-indigo-500 outline-none text-sm px-0 transition-colors"
+                      value={calendar.name}
+                      onChange={(e) => updateCalendar(calendar.id, { name: e.target.value })}
+                  />
+                  <span className="text-[10px] text-slate-400 shrink-0">{calendar.holidays.length} days</span>
+                  <label className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors cursor-pointer" title="Import holidays from an iCal (.ics) file">
+                      <Upload className="w-4 h-4" />
+                      <input type="file" accept=".ics,text/calendar" className="hidden" onChange={(e) => handleIcsFile(calendar, e)} />
+                  </label>
+                  <button
+                      onClick={() => setCalendars(calendars.filter(c => c.id !== calendar.id))}
+                      className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                      title="Delete Calendar"
+                  >
+                      <Trash2 className="w-4 h-4" />
+                  </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 mt-3">
+                  <div>
+                      <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">Applies To</label>
+                      <div className="flex gap-1.5">
+                          <select
+                              className="px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                              value={calendar.scopeType}
+                              onChange={(e) => {
+                                  const scopeType = e.target.value as HolidayCalendar['scopeType'];
+                                  updateCalendar(calendar.id, {
+                                      scopeType,
+                                      scopeValue: scopeType === 'team' ? TEAMS[0] : scopeType === 'location' ? (locations[0] || '') : undefined
+                                  });
+                              }}
+                          >
+                              <option value="organization">Everyone</option>
+                              <option value="team">Team</option>
+                              <option value="location">Location</option>
+                          </select>
+                          {calendar.scopeType === 'team' && (
+                              <select
+                                  className="flex-1 px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                  value={calendar.scopeValue || ''}
+                                  onChange={(e) => updateCalendar(calendar.id, { scopeValue: e.target.value })}
+                              >
+                                  {TEAMS.map(team => <option key={team} value={team}>{team}</option>)}
+                              </select>
+                          )}
+                          {calendar.scopeType === 'location' && (
+                              <>
+                                  <input
+                                      type="text"
+                                      list={`locations-${calendar.id}`}
+                                      className="flex-1 min-w-0 px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                      placeholder="e.g. London"
+                                      value={calendar.scopeValue || ''}
+                                      onChange={(e) => updateCalendar(calendar.id, { scopeValue: e.target.value })}
+                                  />
+                                  <datalist id={`locations-${calendar.id}`}>
+                                      {locations.map(l => <option key={l} value={l} />)}
+                                  </datalist>
+                              </>
+                          )}
+                      </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-slate-600 self-end pb-1.5 cursor-pointer">
+                      <input
+                          type="checkbox"
+                          className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                          checked={calendar.blockFieldwork}
+                          disabled={calendar.scopeType === 'location'}
+                          onChange={(e) => updateCalendar(calendar.id, { blockFieldwork: e.target.checked })}
+                      />
+                      <span className={calendar.scopeType === 'location' ? 'text-slate-400' : ''}>No fieldwork in holiday weeks</span>
+                  </label>
+              </div>
+
+              {isExpanded && (
+                  <div className="mt-3 border border-slate-200 rounded-lg bg-white divide-y divide-slate-100 max-h-56 overflow-y-auto custom-scrollbar">
+                      {calendar.holidays.map(h => (
+                          <div key={h.date} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                              <span className="font-mono text-slate-500 w-24 shrink-0">{format(parseISO(h.date), 'EEE dd MMM yyyy')}</span>
+                              <span className="flex-1 text-slate-700 truncate">{h.name}</span>
+                              <button
+                                  onClick={() => updateCalendar(calendar.id, { holidays: calendar.holidays.filter(x => x.date !== h.date) })}
+                                  className="text-slate-300 hover:text-red-500"
+                              >
+                                  <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                          </div>
+                      ))}
+                      <div className="flex items-center gap-2 px-3 py-1.5">
+                          <input
+                              type="date"
+                              className="px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                              value={newHolidayDate}
+                              onChange={(e) => setNewHolidayDate(e.target.value)}
+                          />
+                          <input
+                              type="text"
+                              className="flex-1 px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                              placeholder="Holiday name"
+                              value={newHolidayName}
+                              onChange={(e) => setNewHolidayName(e.target.value)}
+                              onKeyDown={(e) => e.key === 'Enter' && addHoliday(calendar)}
+                          />
+                          <button
+                              onClick={() => addHoliday(calendar)}
+                              disabled={!newHolidayDate}
+                              className="p-1 rounded bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-colors disabled:opacity-50"
+                          >
+                              <Plus className="w-3.5 h-3.5" />
+                          </button>
+                      </div>
+                  </div>
+              )}
+          </div>
+        )})}
+
+        {calendars.length === 0 && (
+            <div className="text-center p-6 bg-slate-50 border border-dashed border-slate-200 rounded-lg text-slate-400 text-sm">
+                No holiday calendars. Every week is planned at full capacity.
+            </div>
+        )}
+      </div>
+    </section>
+  );
+};
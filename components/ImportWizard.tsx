@@ -0,0 +1,327 @@
+
+import React, { useMemo, useState } from 'react';
+import { GlobalConfig, ProjectInput } from '../types';
+import {
+  ImportKind,
+  ImportMode,
+  SheetTable,
+  ColumnMapping,
+  PROJECT_IMPORT_FIELDS,
+  STAFF_IMPORT_FIELDS,
+  HISTORY_IMPORT_FIELDS,
+  readSpreadsheet,
+  guessColumnMapping,
+  buildProjectPreview,
+  buildStaffPreview,
+  buildHistoryPreview,
+  applyProjectImport,
+  applyStaffImport,
+  applyHistoryImport
+} from '../services/spreadsheetImport';
+import { X, Upload, FileSpreadsheet, AlertCircle, AlertTriangle, CheckCircle2, ChevronLeft } from 'lucide-react';
+
+interface ImportWizardProps {
+  kind: ImportKind;
+  config: GlobalConfig;
+  projects: ProjectInput[];
+  onApply: (next: { config: GlobalConfig; projects?: ProjectInput[] }) => void;
+  onClose: () => void;
+}
+
+type WizardStep = 'upload' | 'map' | 'preview';
+
+const KIND_SETTINGS: Record<ImportKind, { fields: typeof PROJECT_IMPORT_FIELDS; title: string; noun: string; mergeHint: string }> = {
+  projects: { fields: PROJECT_IMPORT_FIELDS, title: 'Import Projects', noun: 'projects', mergeHint: 'Update rows with matching names, add the rest.' },
+  staff: { fields: STAFF_IMPORT_FIELDS, title: 'Import Team Members', noun: 'team members', mergeHint: 'Update rows with matching names, add the rest.' },
+  history: { fields: HISTORY_IMPORT_FIELDS, title: 'Import Assignment History', noun: 'history entries', mergeHint: 'Update entries for the same entity, member and year, add the rest.' }
+};
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ kind, config, projects, onApply, onClose }) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [sheets, setSheets] = useState<SheetTable[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  const { fields, title, noun, mergeHint } = KIND_SETTINGS[kind];
+  const sheet = sheets[sheetIndex];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const tables = readSpreadsheet(await file.arrayBuffer()).filter(t => t.headers.length > 0);
+      if (tables.length === 0) {
+        setFileError('The file does not contain any sheet with a header row.');
+        return;
+      }
+      setFileName(file.name);
+      setFileError(null);
+      setSheets(tables);
+      setSheetIndex(0);
+      setMapping(guessColumnMapping(tables[0].headers, fields));
+      setStep('map');
+    } catch (err) {
+      console.error('Error reading spreadsheet', err);
+      setFileError(`Could not read "${file.name}". Please upload an .xlsx, .xls or .csv file.`);
+    }
+  };
+
+  const selectSheet = (idx: number) => {
+    setSheetIndex(idx);
+    setMapping(guessColumnMapping(sheets[idx].headers, fields));
+  };
+
+  const missingRequired = fields.filter(f => f.required && (mapping[f.key] === undefined || mapping[f.key] < 0));
+
+  const preview = useMemo(() => {
+    if (step !== 'preview' || !sheet) return null;
+    if (kind === 'history') return buildHistoryPreview(sheet, mapping, config);
+    return kind === 'projects'
+      ? buildProjectPreview(sheet, mapping, config)
+      : buildStaffPreview(sheet, mapping, config);
+  }, [step, sheet, mapping, config, kind]);
+
+  const errorRows = preview ? new Set(preview.issues.filter(i => i.level === 'error').map(i => i.row)).size : 0;
+
+  const handleApply = () => {
+    if (!preview) return;
+    if (mode === 'replace' && !confirm(`Replace all existing ${noun} with the ${preview.items.length} imported rows?`)) return;
+
+    if (kind === 'projects') {
+      onApply(applyProjectImport(projects, config, preview as ReturnType<typeof buildProjectPreview>, mode));
+    } else if (kind === 'history') {
+      onApply({ config: applyHistoryImport(config, preview as ReturnType<typeof buildHistoryPreview>, mode) });
+    } else {
+      onApply(applyStaffImport(projects, config, preview as ReturnType<typeof buildStaffPreview>, mode));
+    }
+    onClose();
+  };
+
+  const renderUpload = () => (
+    <div className="space-y-4">
+      <label className="flex flex-col items-center justify-center h-48 border-2 border-dashed border-slate-200 rounded-lg text-slate-400 hover:border-indigo-300 hover:bg-indigo-50/30 cursor-pointer transition-all">
+        <Upload className="w-8 h-8 mb-2 opacity-40" />
+        <span className="text-sm font-medium text-slate-600">Choose an Excel or CSV file</span>
+        <span className="text-[10px] mt-1">.xlsx, .xls, .csv</span>
+        <input type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={handleFile} />
+      </label>
+      {fileError && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-100 rounded-lg text-xs text-red-700">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {fileError}
+        </div>
+      )}
+      <div>
+        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Expected Columns</label>
+        <div className="text-xs text-slate-600 space-y-1">
+          {fields.map(f => (
+            <div key={f.key}>
+              <span className="font-medium">{f.label}</span>
+              {f.required && <span className="text-red-500"> *</span>}
+              {f.hint && <span className="text-slate-400"> — {f.hint}</span>}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderMapping = () => (
+    <div className="space-y-5">
+      <div className="flex items-center gap-2 text-sm text-slate-600">
+        <FileSpreadsheet className="w-4 h-4 text-emerald-600" />
+        <span className="font-medium truncate">{fileName}</span>
+      </div>
+
+      {sheets.length > 1 && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1.5">Sheet</label>
+          <select
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all"
+            value={sheetIndex}
+            onChange={(e) => selectSheet(parseInt(e.target.value))}
+          >
+            {sheets.map((s, i) => <option key={s.name} value={i}>{s.name} ({s.rows.length} rows)</option>)}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1.5">Column Mapping</label>
+        <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+          {fields.map(f => (
+            <div key={f.key} className="flex items-center justify-between p-2.5">
+              <span className="text-xs text-slate-700 font-medium">
+                {f.label}{f.required && <span className="text-red-500"> *</span>}
+              </span>
+              <select
+                className="text-xs border border-slate-200 rounded px-2 py-1 outline-none focus:ring-1 focus:ring-indigo-500 w-44"
+                value={mapping[f.key] ?? -1}
+                onChange={(e) => setMapping({ ...mapping, [f.key]: parseInt(e.target.value) })}
+              >
+                <option value={-1}>— Not mapped —</option>
+                {sheet.headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+        {missingRequired.length > 0 && (
+          <p className="text-[10px] text-amber-600 mt-1.5">Map {missingRequired.map(f => f.label).join(', ')} to continue.</p>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderPreview = () => {
+    if (!preview) return null;
+    const previewFields = fields.filter(f => mapping[f.key] >= 0);
+
+    return (
+      <div className="space-y-5">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="p-3 bg-emerald-50 border border-emerald-100 rounded-lg flex items-center gap-2">
+            <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+            <span className="text-xs text-emerald-800"><span className="font-bold">{preview.items.length}</span> rows ready</span>
+          </div>
+          <div className={`p-3 rounded-lg border flex items-center gap-2 ${errorRows > 0 ? 'bg-red-50 border-red-100' : 'bg-slate-50 border-slate-100'}`}>
+            <AlertCircle className={`w-4 h-4 ${errorRows > 0 ? 'text-red-600' : 'text-slate-400'}`} />
+            <span className={`text-xs ${errorRows > 0 ? 'text-red-800' : 'text-slate-500'}`}><span className="font-bold">{errorRows}</span> rows skipped</span>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1.5">Preview</label>
+          <div className="border border-slate-200 rounded-lg max-h-48 overflow-auto custom-scrollbar">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="p-2 text-left font-semibold text-slate-500 border-b border-slate-200">Row</th>
+                  {previewFields.map(f => <th key={f.key} className="p-2 text-left font-semibold text-slate-500 border-b border-slate-200">{f.label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {sheet.rows.map((row, i) => {
+                  const rowNum = i + 2;
+                  if (row.every(c => String(c ?? '').trim() === '')) return null;
+                  const hasError = preview.issues.some(iss => iss.row === rowNum && iss.level === 'error');
+                  return (
+                    <tr key={i} className={`border-b border-slate-100 ${hasError ? 'bg-red-50/60 text-red-700' : 'text-slate-700'}`}>
+                      <td className="p-2 font-mono text-slate-400">{rowNum}</td>
+                      {previewFields.map(f => {
+                        const v = row[mapping[f.key]];
+                        return <td key={f.key} className="p-2 truncate max-w-[140px]">{v instanceof Date ? v.toISOString().slice(0, 10) : String(v ?? '')}</td>;
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {preview.issues.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">Row Report</label>
+            <div className="border border-slate-200 rounded-lg max-h-40 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+              {preview.issues.map((issue, i) => (
+                <div key={i} className="flex items-start gap-2 p-2 text-xs">
+                  {issue.level === 'error'
+                    ? <AlertCircle className="w-3.5 h-3.5 text-red-500 shrink-0 mt-0.5" />
+                    : <AlertTriangle className="w-3.5 h-3.5 text-amber-500 shrink-0 mt-0.5" />}
+                  <span className="font-mono text-slate-400 w-12 shrink-0">{issue.row > 0 ? `Row ${issue.row}` : '—'}</span>
+                  <span className="text-slate-700">{issue.message}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1.5">Existing Data</label>
+          <div className="grid grid-cols-2 gap-3">
+            {(['merge', 'replace'] as ImportMode[]).map(m => (
+              <label key={m} className={`p-3 border rounded-lg cursor-pointer transition-all ${mode === m ? 'border-indigo-500 bg-indigo-50/50 ring-1 ring-indigo-200' : 'border-slate-200 hover:border-slate-300'}`}>
+                <input type="radio" className="hidden" checked={mode === m} onChange={() => setMode(m)} />
+                <span className="block text-xs font-bold text-slate-700 capitalize">{m}</span>
+                <span className="block text-[10px] text-slate-500 mt-0.5">
+                  {m === 'merge' ? mergeHint : 'Discard existing entries and use only the imported rows.'}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+        <div
+            className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity"
+            onClick={onClose}
+        />
+        <div className="relative w-full max-w-2xl bg-white rounded-xl shadow-2xl transform transition-all flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200 h-[640px]">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50 shrink-0">
+                <h3 className="text-lg font-bold text-slate-800">{title}</h3>
+                <button
+                    onClick={onClose}
+                    className="p-1 rounded-full hover:bg-slate-200 text-slate-400 hover:text-slate-600 transition-colors"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="p-6 flex-1 overflow-y-auto custom-scrollbar">
+                {step === 'upload' && renderUpload()}
+                {step === 'map' && sheet && renderMapping()}
+                {step === 'preview' && renderPreview()}
+            </div>
+
+            <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-between gap-3 shrink-0">
+                <div>
+                    {step !== 'upload' && (
+                        <button
+                            onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+                            className="flex items-center gap-1 px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 hover:bg-slate-200/50 rounded-lg transition-colors"
+                        >
+                            <ChevronLeft className="w-4 h-4" />
+                            Back
+                        </button>
+                    )}
+                </div>
+                <div className="flex gap-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 hover:bg-slate-200/50 rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    {step === 'map' && (
+                        <button
+                            onClick={() => setStep('preview')}
+                            disabled={missingRequired.length > 0}
+                            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 active:bg-indigo-800 rounded-lg shadow-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Preview
+                        </button>
+                    )}
+                    {step === 'preview' && (
+                        <button
+                            onClick={handleApply}
+                            disabled={!preview || preview.items.length === 0}
+                            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 active:bg-indigo-800 rounded-lg shadow-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Import {preview?.items.length || 0} Rows
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import * as XLSX from 'xlsx';
+import { GlobalConfig, ProjectInput } from '../types';
+import { IndependenceConflict, describeExclusionScope } from '../services/independence';
+import { buildConflictsWorkbook } from '../services/reportWorkbook';
+import { X, FileDown, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface IndependenceConflictsPanelProps {
+  conflicts: IndependenceConflict[];
+  projects: ProjectInput[];
+  config: GlobalConfig;
+  onClose: () => void;
+}
+
+export const IndependenceConflictsPanel: React.FC<IndependenceConflictsPanelProps> = ({ conflicts, projects, config, onClose }) => {
+  const ruleCount = config.staffTypes.reduce((sum, st) => sum + (st.exclusions?.length || 0), 0);
+
+  const handleExport = () => {
+    const wb = buildConflictsWorkbook(conflicts, projects, config);
+    XLSX.writeFile(wb, `IndependenceConflicts_${format(new Date(), 'yyyyMMdd')}.xlsx`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+        <div
+            className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity"
+            onClick={onClose}
+        />
+        <div className="relative w-full max-w-2xl bg-white rounded-xl shadow-2xl transform transition-all flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200 h-[560px]">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50 shrink-0">
+                <h3 className="text-lg font-bold text-slate-800">Independence Conflicts</h3>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={handleExport}
+                        disabled={ruleCount === 0}
+                        className="flex items-center gap-1.5 bg-white border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 text-slate-600 px-2 py-1.5 rounded-lg text-xs font-semibold transition-all shadow-sm active:scale-95 disabled:opacity-50"
+                    >
+                        <FileDown className="w-3.5 h-3.5" />
+                        Export
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-full hover:bg-slate-200 text-slate-400 hover:text-slate-600 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-6 space-y-3 flex-1 overflow-y-auto custom-scrollbar">
+                <p className="text-xs text-slate-500">
+                    {ruleCount} exclusion rule{ruleCount === 1 ? '' : 's'} on file. Auto-Optimize never breaks them; the assignments below were made by hand or before a rule was added.
+                </p>
+                {conflicts.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center h-40 text-slate-400 border-2 border-dashed border-slate-100 rounded-lg">
+                        <ShieldCheck className="w-8 h-8 mb-2 opacity-30" />
+                        <span className="text-sm italic">No member is assigned to a project they are barred from.</span>
+                    </div>
+                ) : (
+                    <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                        {conflicts.map(c => (
+                            <div key={`${c.projectId}-${c.staffTypeId}`} className="flex items-start gap-3 p-3">
+                                <ShieldAlert className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
+                                <div className="flex-1 min-w-0 text-xs">
+                                    <div className="text-sm text-slate-700">
+                                        <span className="font-semibold">{c.staffName}</span> on <span className="font-medium">{c.projectName}</span>
+                                    </div>
+                                    <div className="text-slate-500 mt-0.5">{c.exclusion.reason || 'Independence rule'} · {describeExclusionScope(c.exclusion, projects)}</div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { GlobalConfig, ProjectInput } from '../types';
+import { generateSchedule } from '../services/scheduleEngine';
+import { calculateScheduleStats, ScheduleStats } from '../services/scheduleMetrics';
+import { getProposedChanges, applyProposedChanges } from '../services/optimizationReview';
+import { X, AlertTriangle, ArrowRight, UserCheck } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+interface OptimizationReviewDialogProps {
+  baseProjects: ProjectInput[]; // Plan the optimizer started from
+  proposedProjects: ProjectInput[];
+  projects: ProjectInput[]; // Current plan the accepted changes are applied to
+  config: GlobalConfig;
+  warnings: string[];
+  onApply: (projects: ProjectInput[]) => void;
+  onShowRationale?: () => void;
+  onClose: () => void;
+}
+
+interface KpiSpec {
+  label: string;
+  value: (s: ScheduleStats) => number;
+  format: (v: number) => string;
+  lowerIsBetter: boolean;
+}
+
+const KPIS: KpiSpec[] = [
+  { label: 'Total Avg Hrs/Wk', value: s => s.totalAvgWeekly, format: v => v.toFixed(1), lowerIsBetter: false },
+  { label: 'Overtime Hours', value: s => s.totalOvertime, format: v => Math.round(v).toLocaleString(), lowerIsBetter: true },
+  { label: 'Utilization', value: s => s.utilization, format: v => `${Math.round(v)}%`, lowerIsBetter: false },
+  { label: 'Skills Score', value: s => s.totalSkillScore, format: v => v.toFixed(1), lowerIsBetter: false }
+];
+
+const formatWeek = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+export const OptimizationReviewDialog: React.FC<OptimizationReviewDialogProps> = ({ baseProjects, proposedProjects, projects, config, warnings, onApply, onShowRationale, onClose }) => {
+  const changes = useMemo(() => getProposedChanges(baseProjects, proposedProjects, config), [baseProjects, proposedProjects, config]);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(changes.map(c => c.projectId)));
+
+  const preview = useMemo(() => applyProposedChanges(projects, baseProjects, proposedProjects, selected, config), [projects, baseProjects, proposedProjects, selected, config]);
+  const beforeStats = useMemo(() => calculateScheduleStats(generateSchedule(projects, config), projects, config), [projects, config]);
+  const afterStats = useMemo(() => calculateScheduleStats(generateSchedule(preview, config), preview, config), [preview, config]);
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const uniqueWarnings = Array.from(new Set(warnings));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+        <div
+            className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity"
+            onClick={onClose}
+        />
+        <div className="relative w-full max-w-3xl bg-white rounded-xl shadow-2xl transform transition-all flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200 h-[680px]">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50 shrink-0">
+                <h3 className="text-lg font-bold text-slate-800">Review Optimization</h3>
+                <button
+                    onClick={onClose}
+                    className="p-1 rounded-full hover:bg-slate-200 text-slate-400 hover:text-slate-600 transition-colors"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="p-6 space-y-5 flex-1 overflow-y-auto custom-scrollbar">
+                {/* KPI comparison for the current selection */}
+                <div className="grid grid-cols-4 gap-3">
+                    {KPIS.map(kpi => {
+                        const before = kpi.value(beforeStats);
+                        const after = kpi.value(afterStats);
+                        const delta = after - before;
+                        const improved = kpi.lowerIsBetter ? delta < 0 : delta > 0;
+                        return (
+                        <div key={kpi.label} className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{kpi.label}</p>
+                            <div className="flex items-center gap-1.5 mt-1 font-mono text-sm">
+                                <span className="text-slate-400">{kpi.format(before)}</span>
+                                <ArrowRight className="w-3 h-3 text-slate-300" />
+                                <span className={`font-bold ${Math.abs(delta) < 0.05 ? 'text-slate-700' : improved ? 'text-emerald-600' : 'text-red-600'}`}>{kpi.format(after)}</span>
+                            </div>
+                        </div>
+                    )})}
+                </div>
+
+                {uniqueWarnings.length > 0 && (
+                    <div className="p-3 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-800 space-y-1">
+                        {uniqueWarnings.map(w => (
+                            <div key={w} className="flex items-start gap-2">
+                                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                                <span>{w}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div>
+                    <div className="flex justify-between items-center mb-1.5">
+                        <label className="text-sm font-medium text-slate-700">Proposed Changes ({changes.length})</label>
+                        {changes.length > 0 && (
+                            <button
+                                onClick={() => setSelected(selected.size === changes.length ? new Set() : new Set(changes.map(c => c.projectId)))}
+                                className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+                            >
+                                {selected.size === changes.length ? 'Deselect all' : 'Select all'}
+                            </button>
+                        )}
+                    </div>
+                    {changes.length === 0 ? (
+                        <div className="p-4 text-center text-slate-400 text-xs italic border border-slate-100 rounded-lg">
+                            The optimizer kept the current plan.
+                        </div>
+                    ) : (
+                        <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                            {changes.map(c => (
+                                <div key={c.projectId} className="flex items-start gap-3 p-3 hover:bg-slate-50 cursor-pointer" onClick={() => toggle(c.projectId)}>
+                                    <input
+                                        type="checkbox"
+                                        className="mt-0.5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                                        checked={selected.has(c.projectId)}
+                                        onChange={() => toggle(c.projectId)}
+                                        onClick={(e) => e.stopPropagation()}
+                                    />
+                                    <div className="flex-1 min-w-0 space-y-1 text-xs">
+                                        <div className="text-sm font-medium text-slate-700 truncate">{c.projectName}</div>
+                                        {c.startBefore !== c.startAfter && (
+                                            <div className="flex items-center gap-1.5 font-mono">
+                                                <span className="text-slate-500 font-sans w-20">Start</span>
+                                                <span className="text-slate-400 line-through">{formatWeek(c.startBefore)}</span>
+                                                <ArrowRight className="w-3 h-3 text-slate-300" />
+                                                <span className="font-bold text-indigo-700">{formatWeek(c.startAfter)}</span>
+                                            </div>
+                                        )}
+                                        {c.phaseLengths.map(pl => (
+                                            <div key={pl.phase} className="flex items-center gap-1.5 font-mono">
+                                                <span className="text-slate-500 font-sans w-20">{pl.phase}</span>
+                                                <span className="text-slate-400 line-through">{pl.before} wks</span>
+                                                <ArrowRight className="w-3 h-3 text-slate-300" />
+                                                <span className="font-bold text-indigo-700">{pl.after} wks</span>
+                                            </div>
+                                        ))}
+                                        {c.fills.map((f, i) => (
+                                            <div key={i} className="flex items-center gap-1.5">
+                                                <span className="text-slate-500 w-20">{f.phase}</span>
+                                                <UserCheck className="w-3 h-3 text-emerald-600" />
+                                                <span className="text-slate-700">Placeholder filled by <span className="font-semibold">{f.staffName}</span></span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 shrink-0">
+                {onShowRationale && changes.some(c => c.fills.length > 0) && (
+                    <button
+                        onClick={onShowRationale}
+                        className="mr-auto px-4 py-2 text-sm font-medium text-indigo-600 hover:text-indigo-800 hover:bg-indigo-50 rounded-lg transition-colors"
+                    >
+                        Why these assignments?
+                    </button>
+                )}
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 hover:bg-slate-200/50 rounded-lg transition-colors"
+                >
+                    Reject All
+                </button>
+                <button
+                    onClick={() => onApply(preview)}
+                    disabled={selected.size === 0}
+                    className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 active:bg-indigo-800 rounded-lg shadow-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Apply {selected.size} of {changes.length} Projects
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,56 +1,110 @@
 
-import React, { useState } from 'react';
-import { ProjectInput, GlobalConfig } from '../types';
+import React, { useMemo, useState } from 'react';
+import { ProjectInput, GlobalConfig, ProjectDependency, PhaseConfig, ProjectMilestone } from '../types';
 import { TEAMS } from '../constants';
-import { Plus, Trash2, Calendar, Lock, Unlock, X, Sparkles, Settings, ChevronUp, ChevronDown } from 'lucide-react';
-import { format, addWeeks, startOfYear, startOfWeek } from 'date-fns';
+import { Plus, Trash2, Calendar, Lock, Unlock, X, Sparkles, Square, Settings, ChevronUp, ChevronDown, FileSpreadsheet, AlertTriangle, Link2, Flag, History, RotateCcw, MessageSquareText, Pin } from 'lucide-react';
+import { getFirstMondayOfYear, getPlannedEndDate, getProjectSpans, getConstraintViolations, getPhaseDuration, toDateKey, makeOverridesRelative, OptimizationProgress } from '../services/scheduleEngine';
+import { BudgetVariance } from '../services/scheduleMetrics';
+import { OptimizerSettings } from '../hooks/useScheduleOptimizer';
+import { DEPENDENCY_LABELS, findDependencyCycle, findDependencyViolations, pruneDependencies } from '../services/dependencies';
+import { MILESTONE_EDGE_LABELS } from '../services/projectConstraints';
+import { format, addWeeks, parseISO, isValid } from 'date-fns';
 
 interface ProjectListProps {
-  projects: ProjectInput[];
+  projects: ProjectInput[]; // Projects shown, after the team filter
+  allProjects: ProjectInput[]; // Whole plan, since dependencies can cross teams
+  budgetVariance: Record<string, BudgetVariance>; // Planned vs. budget hours per project
   setProjects: React.Dispatch<React.SetStateAction<ProjectInput[]>>;
   currentConfig: GlobalConfig;
-  onOptimize: () => void;
+  onOptimize: (settings?: OptimizerSettings) => void;
   isOptimizing: boolean;
+  optimizationProgress?: OptimizationProgress | null;
+  onStopOptimize?: () => void;
+  onShowOptimizationReport?: () => void; // Set once a run has finished in this session
   onConfigure: () => void;
+  onImport?: () => void;
 }
 
 export const ProjectList: React.FC<ProjectListProps> = ({ 
   projects, 
+  allProjects,
+  budgetVariance,
   setProjects, 
   currentConfig,
   onOptimize,
   isOptimizing,
-  onConfigure
+  optimizationProgress,
+  onStopOptimize,
+  onShowOptimizationReport,
+  onConfigure,
+  onImport
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [seedCount, setSeedCount] = useState(1);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const optimizationRuns = currentConfig.optimizationRuns || [];
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
   
   const [newProjectName, setNewProjectName] = useState('');
   const [newProjectBudget, setNewProjectBudget] = useState<number>(200);
-  const [newProjectOffset, setNewProjectOffset] = useState<number>(0);
+  const [newProjectStart, setNewProjectStart] = useState<string>('');
+  const [newProjectTargetEnd, setNewProjectTargetEnd] = useState<string>('');
+  const [newProjectEarliestStart, setNewProjectEarliestStart] = useState<string>('');
+  const [newProjectLatestFinish, setNewProjectLatestFinish] = useState<string>('');
+  const [newProjectMilestones, setNewProjectMilestones] = useState<ProjectMilestone[]>([]);
   const [newProjectTeam, setNewProjectTeam] = useState<string>(TEAMS[0]);
+  const [newProjectEntity, setNewProjectEntity] = useState('');
   const [newProjectSkills, setNewProjectSkills] = useState<string[]>([]);
+  const [newProjectDependencies, setNewProjectDependencies] = useState<ProjectDependency[]>([]);
+  const [newProjectPhaseWeeks, setNewProjectPhaseWeeks] = useState<number[]>([]);
 
-  // Helper to match the engine's timeline logic
-  const getStartDateFromOffset = (offset: number) => {
-    const year = currentConfig.year;
-    const startDate = startOfWeek(startOfYear(new Date(year, 0, 1)), { weekStartsOn: 1 });
-    let currentMonday = startDate;
-    if (currentMonday.getFullYear() < year) {
-        currentMonday = addWeeks(currentMonday, 1);
-    }
-    return addWeeks(currentMonday, offset);
-  };
+  // Phases the modal edits durations for: the project's own snapshot, or the current rules for a new project
+  const editingPhases: PhaseConfig[] = (editingProjectId && projects.find(p => p.id === editingProjectId)?.phasesConfig) || currentConfig.phases;
+  const withPhaseWeeks = (phases: PhaseConfig[]) => phases.map((ph, i) => newProjectPhaseWeeks[i] === undefined ? ph : { ...ph, weeks: newProjectPhaseWeeks[i] });
+
+  // Checked on the whole plan so a predecessor hidden by the team filter still counts
+  const dependencyViolations = useMemo(
+    () => findDependencyViolations(allProjects, getProjectSpans(allProjects, currentConfig)),
+    [allProjects, currentConfig]
+  );
+
+  const constraintViolations = useMemo(
+    () => getConstraintViolations(projects, currentConfig),
+    [projects, currentConfig]
+  );
+
+  // Projects with manual edits pinned to dates that could move with the project instead
+  const projectsWithPinnedEdits = useMemo(
+    () => new Set(projects.filter(p => makeOverridesRelative(p, currentConfig) !== p).map(p => p.id)),
+    [projects, currentConfig]
+  );
+
+  // Whichever limit is closer: the iteration count or the time budget (replays have none)
+  const optimizationPercent = optimizationProgress
+    ? Math.min(100, 100 * Math.max(
+        optimizationProgress.iteration / optimizationProgress.iterations,
+        optimizationProgress.timeBudgetMs ? optimizationProgress.elapsedMs / optimizationProgress.timeBudgetMs : 0
+      ))
+    : 0;
+
+  const shiftStartDate = (date: string, weeks: number) => toDateKey(addWeeks(parseISO(date), weeks));
 
   const openAddModal = () => {
     setEditingProjectId(null);
     setNewProjectName('');
     setNewProjectBudget(200);
-    // Calculate a smart default for start week based on visible projects
-    const nextOffset = projects.length > 0 ? Math.max(...projects.map(p => p.startWeekOffset)) + 4 : 0;
-    setNewProjectOffset(nextOffset);
+    // Calculate a smart default for start date based on visible projects
+    const latestStart = projects.length > 0 ? projects.map(p => p.startDate).sort()[projects.length - 1] : null;
+    setNewProjectStart(latestStart ? shiftStartDate(latestStart, 4) : toDateKey(getFirstMondayOfYear(currentConfig.year)));
+    setNewProjectTargetEnd('');
+    setNewProjectEarliestStart('');
+    setNewProjectLatestFinish('');
+    setNewProjectMilestones([]);
     setNewProjectTeam(TEAMS[0]);
+    setNewProjectEntity('');
     setNewProjectSkills([]);
+    setNewProjectDependencies([]);
+    setNewProjectPhaseWeeks(currentConfig.phases.map(getPhaseDuration));
     setIsModalOpen(true);
   };
 
@@ -58,14 +112,42 @@ export const ProjectList: React.FC<ProjectListProps> = ({
     setEditingProjectId(project.id);
     setNewProjectName(project.name);
     setNewProjectBudget(project.budgetHours);
-    setNewProjectOffset(project.startWeekOffset);
+    setNewProjectStart(project.startDate);
+    setNewProjectTargetEnd(project.targetEndDate || '');
+    setNewProjectEarliestStart(project.earliestStart || '');
+    setNewProjectLatestFinish(project.latestFinish || '');
+    setNewProjectMilestones(project.milestones || []);
     setNewProjectTeam(project.team || TEAMS[0]);
+    setNewProjectEntity(project.entity || '');
     setNewProjectSkills(project.requiredSkills || []);
+    setNewProjectDependencies(project.dependencies || []);
+    setNewProjectPhaseWeeks((project.phasesConfig || currentConfig.phases).map(getPhaseDuration));
     setIsModalOpen(true);
   };
 
+  const isStartValid = isValid(parseISO(newProjectStart));
+  const isTargetEndValid = !newProjectTargetEnd || (isValid(parseISO(newProjectTargetEnd)) && newProjectTargetEnd >= newProjectStart);
+  // The window itself must be open; a start date outside it is allowed and flagged on the card
+  const isWindowValid = (!newProjectEarliestStart || isValid(parseISO(newProjectEarliestStart)))
+    && (!newProjectLatestFinish || isValid(parseISO(newProjectLatestFinish)))
+    && (!newProjectEarliestStart || !newProjectLatestFinish || newProjectLatestFinish >= newProjectEarliestStart);
+  const areMilestonesValid = newProjectMilestones.every(m => m.name.trim() && isValid(parseISO(m.date)));
+  const canSave = !!newProjectName.trim() && isStartValid && isTargetEndValid && isWindowValid && areMilestonesValid;
+
   const handleSave = () => {
-    if (!newProjectName.trim()) return;
+    if (!canSave) return;
+
+    // Reject edits that would make projects wait on each other
+    const savedId = editingProjectId || '__new__';
+    const candidate = [
+        ...allProjects.filter(p => p.id !== savedId),
+        { ...(allProjects.find(p => p.id === savedId) as ProjectInput), id: savedId, name: newProjectName, dependencies: newProjectDependencies }
+    ];
+    const cycle = findDependencyCycle(candidate);
+    if (cycle) {
+        alert(`These dependencies form a cycle: ${cycle.join(' → ')}. Remove one of them to save.`);
+        return;
+    }
 
     if (editingProjectId) {
         // Update existing project - use functional update for safety with filtered lists
@@ -73,26 +155,39 @@ export const ProjectList: React.FC<ProjectListProps> = ({
             ...p,
             name: newProjectName,
             budgetHours: newProjectBudget,
-            startWeekOffset: newProjectOffset,
+            startDate: newProjectStart,
+            targetEndDate: newProjectTargetEnd || undefined,
+            earliestStart: newProjectEarliestStart || undefined,
+            latestFinish: newProjectLatestFinish || undefined,
+            milestones: newProjectMilestones,
             team: newProjectTeam,
-            requiredSkills: newProjectSkills
+            entity: newProjectEntity.trim() || undefined,
+            requiredSkills: newProjectSkills,
+            dependencies: newProjectDependencies,
+            phasesConfig: withPhaseWeeks(p.phasesConfig || currentConfig.phases)
         } : p));
     } else {
         // Create new project
         const newId = Math.random().toString(36).substr(2, 9);
         
         // Deep copy current phases config to snapshot it for this project
-        const phasesSnapshot = JSON.parse(JSON.stringify(currentConfig.phases));
+        const phasesSnapshot = withPhaseWeeks(JSON.parse(JSON.stringify(currentConfig.phases)));
 
         const project: ProjectInput = {
             id: newId,
             name: newProjectName,
             budgetHours: newProjectBudget,
-            startWeekOffset: newProjectOffset,
+            startDate: newProjectStart,
+            targetEndDate: newProjectTargetEnd || undefined,
+            earliestStart: newProjectEarliestStart || undefined,
+            latestFinish: newProjectLatestFinish || undefined,
+            milestones: newProjectMilestones,
             locked: false,
             phasesConfig: phasesSnapshot,
             team: newProjectTeam,
-            requiredSkills: newProjectSkills
+            entity: newProjectEntity.trim() || undefined,
+            requiredSkills: newProjectSkills,
+            dependencies: newProjectDependencies
         };
         setProjects(prev => [...prev, project]);
     }
@@ -107,7 +202,7 @@ export const ProjectList: React.FC<ProjectListProps> = ({
   };
 
   const removeProject = (id: string) => {
-    setProjects(prev => prev.filter(p => p.id !== id));
+    setProjects(prev => pruneDependencies(prev.filter(p => p.id !== id)));
   };
 
   const updateProject = (id: string, field: keyof ProjectInput, value: any) => {
@@ -131,19 +226,36 @@ export const ProjectList: React.FC<ProjectListProps> = ({
                 <Calendar className="w-5 h-5 text-indigo-600" />
                 Audit Projects
             </h2>
-            <button 
-                onClick={openAddModal}
-                className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg text-xs font-semibold transition-all shadow-sm active:scale-95"
-            >
-                <Plus className="w-3.5 h-3.5" />
-                Add Project
-            </button>
+            <div className="flex items-center gap-2">
+              {onImport && (
+                <button 
+                    onClick={onImport}
+                    className="flex items-center gap-1.5 bg-white border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 text-slate-600 px-2 py-1.5 rounded-lg text-xs font-semibold transition-all shadow-sm active:scale-95"
+                    title="Import projects from Excel/CSV"
+                >
+                    <FileSpreadsheet className="w-3.5 h-3.5" />
+                    Import
+                </button>
+              )}
+              <button 
+                  onClick={openAddModal}
+                  className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg text-xs font-semibold transition-all shadow-sm active:scale-95"
+              >
+                  <Plus className="w-3.5 h-3.5" />
+                  Add Project
+              </button>
+            </div>
         </div>
         
         {/* Scrollable List */}
         <div className="flex-1 overflow-y-auto custom-scrollbar space-y-3 pr-2 min-h-0">
           {projects.map((project) => {
-            const projectStartDate = getStartDateFromOffset(project.startWeekOffset);
+            const projectStartDate = parseISO(project.startDate);
+            const plannedEnd = getPlannedEndDate(project, currentConfig);
+            const missesTarget = !!project.targetEndDate && toDateKey(plannedEnd) > project.targetEndDate;
+            const violations = dependencyViolations.filter(v => v.projectId === project.id);
+            const missedConstraints = constraintViolations.filter(v => v.projectId === project.id);
+            const budget = budgetVariance[project.id];
 
             return (
             <div 
@@ -161,10 +273,59 @@ export const ProjectList: React.FC<ProjectListProps> = ({
                       {project.team && (
                           <span className="text-[10px] text-slate-400 font-medium uppercase tracking-wider">{project.team}</span>
                       )}
+                      {budget && (
+                          <span
+                              className={`text-[10px] font-mono font-medium ${budget.variance === 0 ? 'text-slate-400' : 'text-amber-600'}`}
+                              title={`Planned ${budget.plannedHours}h of ${budget.budgetHours}h budget`}
+                          >
+                              {budget.plannedHours}h / {budget.budgetHours}h
+                              {budget.variance !== 0 && ` (${budget.variance > 0 ? '+' : ''}${budget.variance}h)`}
+                          </span>
+                      )}
+                      {missesTarget && (
+                          <span
+                              className="flex items-center gap-0.5 text-[10px] text-amber-600 font-medium"
+                              title={`Planned end ${format(plannedEnd, 'dd MMM yyyy')} is after the target end ${format(parseISO(project.targetEndDate!), 'dd MMM yyyy')}`}
+                          >
+                              <AlertTriangle className="w-3 h-3" />
+                              Ends {format(plannedEnd, 'dd MMM')}
+                          </span>
+                      )}
+                      {violations.length > 0 && (
+                          <span
+                              className="flex items-center gap-0.5 text-[10px] text-red-600 font-medium"
+                              title={violations.map(v => v.message).join('\n')}
+                          >
+                              <Link2 className="w-3 h-3" />
+                              Too early
+                          </span>
+                      )}
+                      {missedConstraints.length > 0 && (
+                          <span
+                              className="flex items-center gap-0.5 text-[10px] text-red-600 font-medium"
+                              title={missedConstraints.map(v => v.message).join('\n')}
+                          >
+                              <Flag className="w-3 h-3" />
+                              {missedConstraints.length === 1 ? 'Misses date' : `Misses ${missedConstraints.length} dates`}
+                          </span>
+                      )}
+                      {projectsWithPinnedEdits.has(project.id) && (
+                          <button
+                              onClick={(e) => {
+                                  e.stopPropagation();
+                                  setProjects(prev => prev.map(p => p.id === project.id ? makeOverridesRelative(p, currentConfig) : p));
+                              }}
+                              className="flex items-center gap-0.5 text-[10px] text-indigo-600 font-medium hover:underline"
+                              title="Manual edits on this project stay on their dates. Click to move them with the project; edits outside its phases stay on their dates."
+                          >
+                              <Pin className="w-3 h-3" />
+                              Pinned edits
+                          </button>
+                      )}
                     </div>
                  </div>
 
-                 {/* Start Week & Lock */}
+                 {/* Start Date & Lock */}
                  <div className="col-span-5 flex items-end gap-1">
                     <div className="flex-1 flex flex-col gap-0.5">
                       <label className="text-[10px] text-slate-400">Start Date</label>
@@ -184,7 +345,7 @@ export const ProjectList: React.FC<ProjectListProps> = ({
                                     <button
                                         onClick={(e) => {
                                             e.stopPropagation();
-                                            updateProject(project.id, 'startWeekOffset', project.startWeekOffset + 1);
+                                            updateProject(project.id, 'startDate', shiftStartDate(project.startDate, 1));
                                         }}
                                         className="text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 leading-none flex items-center justify-center h-[10px] w-3 rounded-sm transition-colors"
                                     >
@@ -193,7 +354,7 @@ export const ProjectList: React.FC<ProjectListProps> = ({
                                     <button
                                         onClick={(e) => {
                                             e.stopPropagation();
-                                            updateProject(project.id, 'startWeekOffset', Math.max(0, project.startWeekOffset - 1));
+                                            updateProject(project.id, 'startDate', shiftStartDate(project.startDate, -1));
                                         }}
                                         className="text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 leading-none flex items-center justify-center h-[10px] w-3 rounded-sm transition-colors"
                                     >
@@ -240,7 +401,7 @@ export const ProjectList: React.FC<ProjectListProps> = ({
         {/* Footer Actions */}
         <div className="mt-4 pt-4 border-t border-slate-100 flex flex-col gap-3 shrink-0">
           <button 
-            onClick={onOptimize}
+            onClick={() => onOptimize({ seedCount })}
             disabled={isOptimizing}
             className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white rounded-lg text-sm font-medium transition-all shadow-sm disabled:opacity-70 disabled:cursor-not-allowed group"
           >
@@ -248,6 +409,85 @@ export const ProjectList: React.FC<ProjectListProps> = ({
             {isOptimizing ? 'Optimizing Schedule...' : 'Auto-Optimize Schedule'}
           </button>
 
+          {!isOptimizing && (
+            <div className="flex items-center justify-between text-[11px] text-slate-500">
+              <label className="flex items-center gap-1.5" title="Run the optimizer with several random seeds and keep the plan with the lowest cost">
+                  Try
+                  <input
+                      type="number"
+                      min="1"
+                      max="10"
+                      className="w-12 px-1.5 py-0.5 border border-slate-200 rounded text-[11px] bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                      value={seedCount}
+                      onChange={(e) => setSeedCount(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+                  />
+                  seeds
+              </label>
+              {onShowOptimizationReport && (
+                  <button
+                      onClick={onShowOptimizationReport}
+                      className="flex items-center gap-1 hover:text-indigo-600"
+                      title="Why each placeholder was assigned in the last run"
+                  >
+                      <MessageSquareText className="w-3.5 h-3.5" />
+                      Last Run
+                  </button>
+              )}
+              <button
+                  onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                  disabled={optimizationRuns.length === 0}
+                  className="flex items-center gap-1 hover:text-indigo-600 disabled:opacity-50 disabled:hover:text-slate-500"
+              >
+                  <History className="w-3.5 h-3.5" />
+                  Runs ({optimizationRuns.length})
+              </button>
+            </div>
+          )}
+
+          {!isOptimizing && isHistoryOpen && optimizationRuns.length > 0 && (
+            <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-40 overflow-y-auto custom-scrollbar">
+              {optimizationRuns.map(run => (
+                  <div key={run.id} className="flex items-center gap-2 px-2 py-1.5 text-[11px]">
+                      <div className="flex-1 min-w-0">
+                          <div className="font-mono text-slate-700">Seed {run.seed}</div>
+                          <div className="text-[10px] text-slate-400 truncate">
+                              {format(parseISO(run.runAt), 'dd MMM HH:mm')} · {run.iterationsRun !== undefined ? `${run.iterationsRun} of ${run.iterations}` : run.iterations} it. · cost {Math.round(run.cost).toLocaleString()}
+                              {run.seedsTried > 1 && ` · best of ${run.seedsTried}`}
+                              {run.stopped && ' · stopped'}
+                          </div>
+                      </div>
+                      <button
+                          onClick={() => onOptimize({ seed: run.seed, iterations: run.iterations, stopAt: run.iterationsRun })}
+                          className="p-1 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                          title="Re-run with this seed, stopping where this run stopped"
+                      >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                  </div>
+              ))}
+            </div>
+          )}
+
+          {isOptimizing && (
+            <div className="flex items-center gap-2">
+              <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-emerald-500 transition-all" style={{ width: `${Math.round(optimizationPercent)}%` }} />
+              </div>
+              <span className="text-[10px] font-mono text-slate-400 w-8 text-right">{Math.round(optimizationPercent)}%</span>
+              {onStopOptimize && (
+                  <button
+                      onClick={onStopOptimize}
+                      disabled={!optimizationProgress}
+                      className="flex items-center gap-1 px-2 py-1 text-[11px] font-medium text-slate-600 bg-white border border-slate-300 rounded hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors disabled:opacity-50"
+                      title="Stop and keep the best plan found so far"
+                  >
+                      <Square className="w-3 h-3" />
+                      Stop
+                  </button>
+              )}
+            </div>
+          )}
+
           <button 
             onClick={onConfigure}
             className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-sm font-medium transition-all border border-slate-700 shadow-sm group"
@@ -292,18 +532,31 @@ export const ProjectList: React.FC<ProjectListProps> = ({
                         />
                     </div>
 
-                    <div>
-                        <label className="block text-sm font-medium text-slate-700 mb-1.5">Team</label>
-                        <select
-                            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all"
-                            value={newProjectTeam}
-                            onChange={(e) => setNewProjectTeam(e.target.value)}
-                        >
-                            {TEAMS.map(team => (
-                                <option key={team} value={team}>{team}</option>
-                            ))}
-                        </select>
+                    <div className="grid grid-cols-2 gap-5">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1.5">Team</label>
+                            <select
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all"
+                                value={newProjectTeam}
+                                onChange={(e) => setNewProjectTeam(e.target.value)}
+                            >
+                                {TEAMS.map(team => (
+                                    <option key={team} value={team}>{team}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1.5">Auditable Entity</label>
+                            <input
+                                type="text"
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all placeholder:text-slate-400"
+                                placeholder={newProjectName.trim() || 'Same as project name'}
+                                value={newProjectEntity}
+                                onChange={(e) => setNewProjectEntity(e.target.value)}
+                            />
+                        </div>
                     </div>
+                    <p className="text-[10px] text-slate-400 -mt-3">The entity links this audit to prior years for staff rotation.</p>
                     
                     <div className="grid grid-cols-2 gap-5">
                         <div>
@@ -316,19 +569,218 @@ export const ProjectList: React.FC<ProjectListProps> = ({
                             />
                         </div>
                         <div>
-                            <label className="block text-sm font-medium text-slate-700 mb-1.5">Start Week Offset</label>
+                            <label className="block text-sm font-medium text-slate-700 mb-1.5">Start Date</label>
                             <input
-                                type="number"
+                                type="date"
                                 className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all"
-                                value={newProjectOffset}
-                                onChange={(e) => setNewProjectOffset(parseInt(e.target.value) || 0)}
+                                value={newProjectStart}
+                                onChange={(e) => setNewProjectStart(e.target.value)}
                             />
                             <p className="text-[10px] text-slate-400 mt-1.5">
-                                {format(getStartDateFromOffset(newProjectOffset), 'dd MMM yyyy')}
+                                Scheduled from the Monday of this week
                             </p>
                         </div>
                     </div>
 
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1.5">Target End Date <span className="text-slate-400 font-normal">(optional)</span></label>
+                        <input
+                            type="date"
+                            className={`w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all ${isTargetEndValid ? 'border-slate-300' : 'border-red-300'}`}
+                            value={newProjectTargetEnd}
+                            onChange={(e) => setNewProjectTargetEnd(e.target.value)}
+                        />
+                        {!isTargetEndValid && (
+                            <p className="text-[10px] text-red-500 mt-1.5">Target end must be on or after the start date.</p>
+                        )}
+                    </div>
+
+                    <div>
+                        <div className="grid grid-cols-2 gap-5">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1.5">Earliest Start <span className="text-slate-400 font-normal">(optional)</span></label>
+                                <input
+                                    type="date"
+                                    className={`w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all ${isWindowValid ? 'border-slate-300' : 'border-red-300'}`}
+                                    value={newProjectEarliestStart}
+                                    onChange={(e) => setNewProjectEarliestStart(e.target.value)}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1.5">Report Due <span className="text-slate-400 font-normal">(optional)</span></label>
+                                <input
+                                    type="date"
+                                    className={`w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all ${isWindowValid ? 'border-slate-300' : 'border-red-300'}`}
+                                    value={newProjectLatestFinish}
+                                    onChange={(e) => setNewProjectLatestFinish(e.target.value)}
+                                />
+                            </div>
+                        </div>
+                        {isWindowValid ? (
+                            <p className="text-[10px] text-slate-400 mt-1.5">Hard limits: Auto-Optimize never moves the project outside this window.</p>
+                        ) : (
+                            <p className="text-[10px] text-red-500 mt-1.5">The report due date must be on or after the earliest start.</p>
+                        )}
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1.5">Phase Durations (Weeks)</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {editingPhases.map((phase, i) => (
+                                <div key={phase.name} className="flex items-center justify-between gap-2 px-2 py-1.5 border border-slate-200 rounded-lg bg-slate-50/50">
+                                    <span className="text-xs text-slate-700">{phase.name}</span>
+                                    <div className="flex items-center gap-1">
+                                        <input
+                                            type="number"
+                                            min={phase.minWeeks}
+                                            max={phase.maxWeeks}
+                                            disabled={phase.minWeeks >= phase.maxWeeks}
+                                            className="w-12 px-1.5 py-1 border border-slate-300 rounded text-xs text-center focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none disabled:bg-slate-100 disabled:text-slate-400"
+                                            value={newProjectPhaseWeeks[i] ?? getPhaseDuration(phase)}
+                                            onChange={(e) => {
+                                                const value = Math.max(phase.minWeeks, Math.min(phase.maxWeeks, parseInt(e.target.value) || phase.minWeeks));
+                                                setNewProjectPhaseWeeks(editingPhases.map((ph, j) => j === i ? value : (newProjectPhaseWeeks[j] ?? getPhaseDuration(ph))));
+                                            }}
+                                        />
+                                        <span className="text-[10px] text-slate-400 w-8">{phase.minWeeks}–{phase.maxWeeks}</span>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1.5">Auto-Optimize may stretch or compress unlocked projects within each range.</p>
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between items-center mb-1.5">
+                            <label className="text-sm font-medium text-slate-700">Depends On</label>
+                            <button
+                                onClick={() => {
+                                    const other = allProjects.find(p => p.id !== editingProjectId && !newProjectDependencies.some(d => d.predecessorId === p.id));
+                                    if (other) setNewProjectDependencies([...newProjectDependencies, { predecessorId: other.id, type: 'finish-to-start', lagWeeks: 0 }]);
+                                }}
+                                disabled={!allProjects.some(p => p.id !== editingProjectId && !newProjectDependencies.some(d => d.predecessorId === p.id))}
+                                className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-40"
+                            >
+                                <Plus className="w-3 h-3" />
+                                Add Dependency
+                            </button>
+                        </div>
+                        {newProjectDependencies.length === 0 ? (
+                            <p className="text-[10px] text-slate-400">Can start independently of other projects.</p>
+                        ) : (
+                            <div className="space-y-1.5">
+                                {newProjectDependencies.map((dep, i) => {
+                                    const updateDependency = (changes: Partial<ProjectDependency>) =>
+                                        setNewProjectDependencies(newProjectDependencies.map((d, j) => j === i ? { ...d, ...changes } : d));
+                                    return (
+                                    <div key={i} className="flex items-center gap-1.5">
+                                        <select
+                                            className="flex-1 min-w-0 px-2 py-1.5 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                            value={dep.predecessorId}
+                                            onChange={(e) => updateDependency({ predecessorId: e.target.value })}
+                                        >
+                                            {allProjects.filter(p => p.id !== editingProjectId).map(p => (
+                                                <option key={p.id} value={p.id}>{p.name}</option>
+                                            ))}
+                                        </select>
+                                        <select
+                                            className="px-2 py-1.5 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                            value={dep.type}
+                                            onChange={(e) => updateDependency({ type: e.target.value as ProjectDependency['type'] })}
+                                        >
+                                            {Object.entries(DEPENDENCY_LABELS).map(([value, label]) => (
+                                                <option key={value} value={value}>{label}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            className="w-12 px-2 py-1.5 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                            value={dep.lagWeeks}
+                                            onChange={(e) => updateDependency({ lagWeeks: parseInt(e.target.value) || 0 })}
+                                            title="Lag in weeks"
+                                        />
+                                        <span className="text-[10px] text-slate-400">wk</span>
+                                        <button
+                                            onClick={() => setNewProjectDependencies(newProjectDependencies.filter((_, j) => j !== i))}
+                                            className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                                        >
+                                            <Trash2 className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                )})}
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between items-center mb-1.5">
+                            <label className="text-sm font-medium text-slate-700">Milestones</label>
+                            <button
+                                onClick={() => setNewProjectMilestones([...newProjectMilestones, {
+                                    id: Math.random().toString(36).substr(2, 9),
+                                    name: '',
+                                    date: newProjectStart,
+                                    phase: editingPhases[0].name,
+                                    edge: 'start'
+                                }])}
+                                className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium"
+                            >
+                                <Plus className="w-3 h-3" />
+                                Add Milestone
+                            </button>
+                        </div>
+                        {newProjectMilestones.length === 0 ? (
+                            <p className="text-[10px] text-slate-400">No fixed dates, e.g. an audit committee meeting.</p>
+                        ) : (
+                            <div className="space-y-1.5">
+                                {newProjectMilestones.map((milestone, i) => {
+                                    const updateMilestone = (changes: Partial<ProjectMilestone>) =>
+                                        setNewProjectMilestones(newProjectMilestones.map((m, j) => j === i ? { ...m, ...changes } : m));
+                                    return (
+                                    <div key={milestone.id} className="flex items-center gap-1.5">
+                                        <input
+                                            type="text"
+                                            placeholder="Name"
+                                            className={`flex-1 min-w-0 px-2 py-1.5 border rounded-lg text-xs focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none ${milestone.name.trim() ? 'border-slate-300' : 'border-red-300'}`}
+                                            value={milestone.name}
+                                            onChange={(e) => updateMilestone({ name: e.target.value })}
+                                        />
+                                        <select
+                                            className="px-2 py-1.5 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                            value={milestone.phase}
+                                            onChange={(e) => updateMilestone({ phase: e.target.value as ProjectMilestone['phase'] })}
+                                        >
+                                            {editingPhases.map(ph => (
+                                                <option key={ph.name} value={ph.name}>{ph.name}</option>
+                                            ))}
+                                        </select>
+                                        <select
+                                            className="px-2 py-1.5 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                            value={milestone.edge}
+                                            onChange={(e) => updateMilestone({ edge: e.target.value as ProjectMilestone['edge'] })}
+                                        >
+                                            {Object.entries(MILESTONE_EDGE_LABELS).map(([value, label]) => (
+                                                <option key={value} value={value}>{label}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="date"
+                                            className={`w-32 px-2 py-1.5 border rounded-lg text-xs focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none ${isValid(parseISO(milestone.date)) ? 'border-slate-300' : 'border-red-300'}`}
+                                            value={milestone.date}
+                                            onChange={(e) => updateMilestone({ date: e.target.value })}
+                                        />
+                                        <button
+                                            onClick={() => setNewProjectMilestones(newProjectMilestones.filter((_, j) => j !== i))}
+                                            className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                                        >
+                                            <Trash2 className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                )})}
+                            </div>
+                        )}
+                    </div>
+
                     <div>
                       <label className="block text-sm font-medium text-slate-700 mb-1.5">Required Skills</label>
                       <div className="w-full border border-slate-300 rounded-lg h-32 overflow-y-auto p-2 bg-slate-50/50 custom-scrollbar">
@@ -360,7 +812,7 @@ export const ProjectList: React.FC<ProjectListProps> = ({
                     </button>
                     <button 
                         onClick={handleSave}
-                        disabled={!newProjectName.trim()}
+                        disabled={!canSave}
                         className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 active:bg-indigo-800 rounded-lg shadow-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         {editingProjectId ? 'Save Changes' : 'Create Project'}
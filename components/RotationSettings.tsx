@@ -0,0 +1,160 @@
+import React, { useMemo } from 'react';
+import { GlobalConfig, ProjectInput, RotationRule } from '../types';
+import { getRotationRule, recordPlanHistory } from '../services/rotation';
+import { Repeat, FileSpreadsheet, History, Trash2 } from 'lucide-react';
+
+interface RotationSettingsProps {
+  config: GlobalConfig;
+  setConfig: React.Dispatch<React.SetStateAction<GlobalConfig>>;
+  projects: ProjectInput[];
+  onImportHistory?: () => void;
+}
+
+interface MemberYears {
+  years: number[];
+  leadYears: number[];
+}
+
+export const RotationSettings: React.FC<RotationSettingsProps> = ({ config, setConfig, projects, onImportHistory }) => {
+  const rule = getRotationRule(config);
+  const history = config.assignmentHistory || [];
+
+  const updateRule = (changes: Partial<RotationRule>) => {
+    setConfig({ ...config, rotationRule: { ...rule, ...changes } });
+  };
+
+  // Entity -> member -> years, for the summary list
+  const byEntity = useMemo(() => {
+    const groups: Record<string, Record<string, MemberYears>> = {};
+    history.forEach(h => {
+      const members = groups[h.entity] || (groups[h.entity] = {});
+      const entry = members[h.staffTypeId] || (members[h.staffTypeId] = { years: [], leadYears: [] });
+      entry.years.push(h.year);
+      if (h.lead) entry.leadYears.push(h.year);
+    });
+    return Object.entries(groups)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([entity, members]) => [entity, Object.entries(members)] as [string, [string, MemberYears][]]);
+  }, [history]);
+
+  const recordPlan = () => {
+    if (history.some(h => h.year === config.year) && !confirm(`Replace the ${config.year} history of these projects with the current plan?`)) return;
+    setConfig({ ...config, assignmentHistory: recordPlanHistory(projects, config) });
+  };
+
+  const clearHistory = () => {
+    if (!confirm(`Delete all ${history.length} history entries?`)) return;
+    setConfig({ ...config, assignmentHistory: [] });
+  };
+
+  const staffName = (id: string) => config.staffTypes.find(s => s.id === id)?.name || 'Removed member';
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-md font-bold text-slate-800 flex items-center gap-2">
+              <Repeat className="w-4 h-4" />
+              Rotation
+          </h3>
+          <div className="flex items-center gap-2">
+              {onImportHistory && (
+                  <button
+                      onClick={onImportHistory}
+                      className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium"
+                  >
+                      <FileSpreadsheet className="w-3 h-3" />
+                      Import History
+                  </button>
+              )}
+              <button
+                  onClick={recordPlan}
+                  className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium"
+                  title={`Record who worked on each project as the ${config.year} history`}
+              >
+                  <History className="w-3 h-3" />
+                  Record {config.year} Plan
+              </button>
+          </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-4">
+          <div>
+              <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">Max Consecutive Years</label>
+              <input
+                  type="number"
+                  min="1"
+                  className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                  value={rule.maxConsecutiveYears}
+                  onChange={(e) => updateRule({ maxConsecutiveYears: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+          </div>
+          <div>
+              <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">Beyond the Limit</label>
+              <select
+                  className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                  value={rule.enforcement}
+                  onChange={(e) => updateRule({ enforcement: e.target.value as RotationRule['enforcement'] })}
+              >
+                  <option value="penalize">Penalize</option>
+                  <option value="forbid">Forbid</option>
+              </select>
+          </div>
+          <div>
+              <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1" title="Assignment score subtracted from a candidate beyond the limit">Penalty</label>
+              <input
+                  type="number"
+                  min="0"
+                  disabled={rule.enforcement !== 'penalize'}
+                  className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+                  value={rule.penalty}
+                  onChange={(e) => updateRule({ penalty: Math.max(0, parseFloat(e.target.value) || 0) })}
+              />
+          </div>
+          <label className="flex items-center gap-2 mt-4 text-xs text-slate-700 cursor-pointer">
+              <input
+                  type="checkbox"
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  checked={rule.leadsOnly}
+                  onChange={(e) => updateRule({ leadsOnly: e.target.checked })}
+              />
+              Count lead years only
+          </label>
+      </div>
+
+      <div className="mt-4">
+          <div className="flex justify-between items-center mb-1.5">
+              <div className="text-xs font-bold text-slate-500 uppercase tracking-wider">Assignment History ({history.length})</div>
+              {history.length > 0 && (
+                  <button
+                      onClick={clearHistory}
+                      className="text-xs flex items-center gap-1 text-slate-400 hover:text-red-500 font-medium"
+                  >
+                      <Trash2 className="w-3 h-3" />
+                      Clear
+                  </button>
+              )}
+          </div>
+          {byEntity.length === 0 ? (
+              <p className="text-[10px] text-slate-400">No history yet. Import prior years or record a closed plan before moving to the next year.</p>
+          ) : (
+              <div className="border border-slate-200 rounded-lg max-h-48 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+                  {byEntity.map(([entity, members]) => (
+                      <div key={entity} className="p-2 text-xs">
+                          <div className="font-medium text-slate-700">{entity}</div>
+                          {members.map(([staffTypeId, { years, leadYears }]) => (
+                              <div key={staffTypeId} className="flex justify-between text-slate-500 pl-2">
+                                  <span>{staffName(staffTypeId)}</span>
+                                  <span className="font-mono">
+                                      {[...years].sort((a, b) => a - b).map(y => leadYears.includes(y) ? `${y}*` : String(y)).join(', ')}
+                                  </span>
+                              </div>
+                          ))}
+                      </div>
+                  ))}
+              </div>
+          )}
+          <p className="text-[10px] text-slate-400 mt-1.5">* led the entity that year. Projects match history by their auditable entity, or their name when none is set.</p>
+      </div>
+    </section>
+  );
+};
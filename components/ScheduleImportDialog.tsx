@@ -0,0 +1,178 @@
+
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { GlobalConfig, ProjectInput, ScheduleData } from '../types';
+import { diffScheduleWorkbook, applyScheduleChanges, ScheduleWorkbookDiff } from '../services/scheduleWorkbook';
+import { X, Upload, AlertCircle, AlertTriangle, ArrowRight } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+interface ScheduleImportDialogProps {
+  schedule: ScheduleData; // Unfiltered schedule for the whole planning horizon
+  projects: ProjectInput[];
+  config: GlobalConfig;
+  onApply: (projects: ProjectInput[]) => void;
+  onClose: () => void;
+}
+
+export const ScheduleImportDialog: React.FC<ScheduleImportDialogProps> = ({ schedule, projects, config, onApply, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [diff, setDiff] = useState<ScheduleWorkbookDiff | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      const wb = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+      const result = diffScheduleWorkbook(wb, schedule, projects, config);
+      setDiff(result);
+      setSelected(new Set(result.changes.map(c => c.id)));
+    } catch (err) {
+      console.error('Error reading workbook', err);
+      setDiff({ error: `Could not read "${file.name}" as an Excel workbook.`, changes: [], warnings: [] });
+    }
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const handleApply = () => {
+    if (!diff) return;
+    onApply(applyScheduleChanges(projects, diff.changes.filter(c => selected.has(c.id)), config));
+    onClose();
+  };
+
+  const formatValue = (v: number | string | null) => (v === null ? '—' : String(v));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+        <div
+            className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity"
+            onClick={onClose}
+        />
+        <div className="relative w-full max-w-2xl bg-white rounded-xl shadow-2xl transform transition-all flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200 h-[640px]">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50 shrink-0">
+                <h3 className="text-lg font-bold text-slate-800">Import Schedule Edits</h3>
+                <button
+                    onClick={onClose}
+                    className="p-1 rounded-full hover:bg-slate-200 text-slate-400 hover:text-slate-600 transition-colors"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="p-6 space-y-5 flex-1 overflow-y-auto custom-scrollbar">
+                <label className="flex items-center gap-3 p-4 border-2 border-dashed border-slate-200 rounded-lg text-slate-500 hover:border-indigo-300 hover:bg-indigo-50/30 cursor-pointer transition-all">
+                    <Upload className="w-5 h-5 opacity-50" />
+                    <span className="text-sm">{fileName || 'Choose a workbook created with "Export to Excel"'}</span>
+                    <input type="file" accept=".xlsx,.xls" className="hidden" onChange={handleFile} />
+                </label>
+
+                {diff?.error && (
+                    <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-100 rounded-lg text-xs text-red-700">
+                        <AlertCircle className="w-4 h-4 shrink-0" />
+                        {diff.error}
+                    </div>
+                )}
+
+                {diff && !diff.error && (
+                    <div>
+                        <div className="flex justify-between items-center mb-1.5">
+                            <label className="text-sm font-medium text-slate-700">Changes ({diff.changes.length})</label>
+                            {diff.changes.length > 0 && (
+                                <button
+                                    onClick={() => setSelected(selected.size === diff.changes.length ? new Set() : new Set(diff.changes.map(c => c.id)))}
+                                    className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+                                >
+                                    {selected.size === diff.changes.length ? 'Deselect all' : 'Select all'}
+                                </button>
+                            )}
+                        </div>
+                        {diff.changes.length === 0 ? (
+                            <div className="p-4 text-center text-slate-400 text-xs italic border border-slate-100 rounded-lg">
+                                The workbook matches the current schedule.
+                            </div>
+                        ) : (
+                            <div className="border border-slate-200 rounded-lg max-h-72 overflow-y-auto custom-scrollbar">
+                                <table className="w-full text-xs">
+                                    <thead className="bg-slate-50 sticky top-0">
+                                        <tr className="text-left text-slate-500">
+                                            <th className="p-2 border-b border-slate-200 w-8"></th>
+                                            <th className="p-2 border-b border-slate-200 font-semibold">Project</th>
+                                            <th className="p-2 border-b border-slate-200 font-semibold">Row</th>
+                                            <th className="p-2 border-b border-slate-200 font-semibold">Week</th>
+                                            <th className="p-2 border-b border-slate-200 font-semibold text-center">Change</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {diff.changes.map(c => (
+                                            <tr key={c.id} className="border-b border-slate-100 hover:bg-slate-50 cursor-pointer" onClick={() => toggle(c.id)}>
+                                                <td className="p-2">
+                                                    <input
+                                                        type="checkbox"
+                                                        className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                                                        checked={selected.has(c.id)}
+                                                        onChange={() => toggle(c.id)}
+                                                        onClick={(e) => e.stopPropagation()}
+                                                    />
+                                                </td>
+                                                <td className="p-2 text-slate-700 truncate max-w-[160px]">{c.projectName}</td>
+                                                <td className="p-2 text-slate-500">{c.type === 'phase' ? 'Phase' : c.staffLabel}</td>
+                                                <td className="p-2 font-mono text-slate-500">{format(parseISO(c.date), 'dd MMM')}</td>
+                                                <td className="p-2">
+                                                    <div className="flex items-center justify-center gap-1.5 font-mono">
+                                                        <span className="text-slate-400 line-through">{formatValue(c.before)}</span>
+                                                        <ArrowRight className="w-3 h-3 text-slate-300" />
+                                                        <span className="font-bold text-indigo-700">{formatValue(c.after)}</span>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {diff && diff.warnings.length > 0 && (
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1.5">Skipped</label>
+                        <div className="border border-slate-200 rounded-lg max-h-32 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+                            {diff.warnings.map((w, i) => (
+                                <div key={i} className="flex items-start gap-2 p-2 text-xs text-slate-700">
+                                    <AlertTriangle className="w-3.5 h-3.5 text-amber-500 shrink-0 mt-0.5" />
+                                    {w}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 shrink-0">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 hover:bg-slate-200/50 rounded-lg transition-colors"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={handleApply}
+                    disabled={!diff || !!diff.error || selected.size === 0}
+                    className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 active:bg-indigo-800 rounded-lg shadow-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Apply {selected.size} Changes
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
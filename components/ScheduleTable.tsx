@@ -1,22 +1,30 @@
 
 import React, { useMemo, useState, useRef, useEffect } from 'react';
-import { ScheduleData, PhaseName, ScheduleRow, ScheduleCell, ProjectInput, GlobalConfig } from '../types';
+import { ScheduleData, PhaseName, ScheduleRow, ScheduleCell, ProjectInput, GlobalConfig, ViewMode, StaffType, OverrideAnchor } from '../types';
 import { format, parseISO } from 'date-fns';
-import { Download, TrendingUp, Users, Layers, User, ChevronRight, ChevronDown, Clock, Activity, Target, Award, Plus, Trash2 } from 'lucide-react';
+import { Download, Upload, FileChartColumn, TrendingUp, Users, Layers, User, ChevronRight, ChevronDown, Clock, Activity, Target, Award, Plus, Trash2, Pin, MoveHorizontal } from 'lucide-react';
 import * as XLSX from 'xlsx';
-
-export type ViewMode = 'project' | 'member' | 'skill';
+import { buildScheduleWorkbook } from '../services/scheduleWorkbook';
+import { buildManagementReport } from '../services/reportWorkbook';
+import { calculateScheduleStats, getSkillCoverage } from '../services/scheduleMetrics';
+import { getWeekAvailability } from '../services/availability';
+import { getDateMarkers } from '../services/timelineMarkers';
+import { RotationStatus, getRotationStatus, getProjectEntity } from '../services/rotation';
+import { isPlaceholder, isPlaceholderId, describePlaceholder } from '../services/placeholders';
 
 interface ScheduleTableProps {
   data: ScheduleData;
   projects: ProjectInput[];
+  allProjects: ProjectInput[]; // The whole plan; `projects` may be narrowed to one team
   config: GlobalConfig;
   onCellUpdate: (projectId: string, staffTypeId: string, staffIndex: number, date: string, value: any, type: 'hours' | 'phase') => void;
+  onOverrideAnchorChange?: (projectId: string, staffTypeId: string, staffIndex: number, date: string, anchor: OverrideAnchor) => void;
   onAssignmentChange: (projectId: string, oldStaffTypeId: string, newStaffTypeId: string) => void;
   onAddAssignment?: (projectId: string) => void;
   onRemoveAssignment?: (projectId: string, staffTypeId: string, staffIndex: number) => void;
   onAddProjectToMember?: (staffTypeId: string) => void;
   onProjectChange?: (staffTypeId: string, oldProjectId: string, newProjectId: string) => void;
+  onImportEdits?: () => void;
   viewMode: ViewMode;
   onViewModeChange: (mode: ViewMode) => void;
 }
@@ -39,7 +47,7 @@ interface GroupedRow {
   // Metadata for editing group-level cells
   projectId?: string; 
   staffTypeId?: string;
-  cells: { hours: number; phase: string | null; date: string }[];
+  cells: { hours: number; phase: string | null; date: string; phaseAnchor?: OverrideAnchor }[];
   children: ScheduleRow[];
 }
 
@@ -134,13 +142,16 @@ const EditCellInput = ({
 export const ScheduleTable: React.FC<ScheduleTableProps> = ({ 
   data, 
   projects, 
+  allProjects,
   config, 
   onCellUpdate, 
+  onOverrideAnchorChange,
   onAssignmentChange, 
   onAddAssignment,
   onRemoveAssignment,
   onAddProjectToMember,
   onProjectChange,
+  onImportEdits,
   viewMode, 
   onViewModeChange 
 }) => {
@@ -236,106 +247,36 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
   };
 
   const handleExport = () => {
-    const wb = XLSX.utils.book_new();
-    const wsData = [];
-    
-    // Create Headers
-    // Project Name, Role, Staff Name, Total Hours, [Dates...]
-    const headers = ['Project Name', 'Role', 'Staff Name', 'Total Hours', ...data.headers.map(d => format(parseISO(d), 'yyyy-MM-dd'))];
-    wsData.push(headers);
-
-    // Create Rows
-    data.rows.forEach(row => {
-        const rowData = [
-            row.projectName,
-            row.staffRole,
-            row.staffTypeName,
-            row.totalHours,
-            ...row.cells.map(c => c.hours)
-        ];
-        wsData.push(rowData);
-    });
-
-    const ws = XLSX.utils.aoa_to_sheet(wsData);
-    XLSX.utils.book_append_sheet(wb, ws, "Schedule");
+    // Multi-sheet workbook (hours, phases, overrides, projects, staff) that "Import Edits" can read back
+    const wb = buildScheduleWorkbook(data, projects, config);
     XLSX.writeFile(wb, `AuditSchedule_${format(new Date(), 'yyyyMMdd')}.xlsx`);
   };
 
-  // Stats
-  const stats = useMemo(() => {
-    const weeksCount = data.headers.length || 52;
-    let grandTotal = 0;
-    
-    const staffLoads: Record<string, number[]> = {};
-    const uniqueStaffIds = new Set<string>();
-
-    data.rows.forEach(row => {
-        uniqueStaffIds.add(row.staffTypeId);
-        grandTotal += row.cells.reduce((acc, cell) => acc + (cell.hours || 0), 0);
-        
-        const staffKey = `${row.staffTypeId}-${row.staffIndex}`;
-        if (!staffLoads[staffKey]) {
-            staffLoads[staffKey] = new Array(data.headers.length).fill(0);
-        }
-        
-        row.cells.forEach((cell, idx) => {
-            staffLoads[staffKey][idx] += (cell.hours || 0);
-        });
-    });
-    
-    let totalOvertime = 0;
-    Object.entries(staffLoads).forEach(([key, weeklyHours]) => {
-        const [staffId] = key.split('-');
-        const staffConfig = config.staffTypes.find(s => s.id === staffId);
-        const maxHours = staffConfig ? staffConfig.maxHoursPerWeek : 40;
-        
-        weeklyHours.forEach(hours => {
-            if (hours > maxHours) {
-                totalOvertime += (hours - maxHours);
-            }
-        });
-    });
+  const handleExportReport = () => {
+    // Reporting pack for the visible period: utilization, phase budgets, skills coverage and team totals
+    const wb = buildManagementReport(data, projects, config);
+    XLSX.writeFile(wb, `AuditReport_${format(new Date(), 'yyyyMMdd')}.xlsx`);
+  };
 
-    let totalCapacity = 0;
-    uniqueStaffIds.forEach(id => {
-        const staff = config.staffTypes.find(s => s.id === id);
-        if (staff) {
-            totalCapacity += (staff.maxHoursPerWeek * weeksCount);
-        }
-    });
+  // Stats
+  const stats = useMemo(() => calculateScheduleStats(data, projects, config), [data, config, projects]);
 
-    const utilization = totalCapacity > 0 ? (grandTotal / totalCapacity) * 100 : 0;
-    const totalAvgWeekly = grandTotal / weeksCount;
+  // Computed on the whole plan so predecessors hidden by the team filter still place their markers
+  const dateMarkers = useMemo(() => getDateMarkers(allProjects, config), [allProjects, config]);
 
-    let totalSkillScore = 0;
-    const assignmentMap: Record<string, Set<string>> = {};
+  // Consecutive years each assigned member has been on the project's entity, keyed by project and member
+  const rotationStatuses = useMemo(() => {
+    const statuses: Record<string, RotationStatus> = {};
+    if (!config.assignmentHistory || config.assignmentHistory.length === 0) return statuses;
     data.rows.forEach(row => {
-        if (row.totalHours > 0) {
-            if (!assignmentMap[row.projectId]) assignmentMap[row.projectId] = new Set();
-            assignmentMap[row.projectId].add(row.staffTypeId);
-        }
-    });
-
-    Object.keys(assignmentMap).forEach(projectId => {
-        const project = projects.find(p => p.id === projectId);
-        if (project && project.requiredSkills && project.requiredSkills.length > 0) {
-            let projectPoints = 0;
-            const assignedStaffIds = assignmentMap[projectId];
-            project.requiredSkills.forEach(skillName => {
-                assignedStaffIds.forEach(staffId => {
-                    const staff = config.staffTypes.find(s => s.id === staffId);
-                    const level = staff?.skills?.[skillName];
-                    if (level === 'Beginner') projectPoints += 1;
-                    else if (level === 'Intermediate') projectPoints += 2;
-                    else if (level === 'Advanced') projectPoints += 3;
-                });
-            });
-            totalSkillScore += (projectPoints / project.requiredSkills.length);
-        }
+      const key = `${row.projectId}|${row.staffTypeId}`;
+      const project = projects.find(p => p.id === row.projectId);
+      if (statuses[key] || !project || isPlaceholderId(config, row.staffTypeId)) return;
+      const status = getRotationStatus(config, getProjectEntity(project), row.staffTypeId);
+      if (status) statuses[key] = status;
     });
-
-    return { totalAvgWeekly, totalOvertime, utilization, totalSkillScore };
-  }, [data, config.staffTypes, projects]);
+    return statuses;
+  }, [data, projects, config]);
 
   // Grouping
   const groupedData = useMemo(() => {
@@ -381,6 +322,7 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
       row.cells.forEach((cell, idx) => {
         const groupCell = group.cells[idx];
         groupCell.hours += cell.hours;
+        if (viewMode === 'project' && cell.phaseAnchor) groupCell.phaseAnchor = cell.phaseAnchor;
         if (cell.hours > 0 && cell.phase) {
            if (groupCell.phase === null) {
              groupCell.phase = cell.phase;
@@ -393,6 +335,20 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
     return Object.values(groups);
   }, [data, viewMode]);
 
+  // Corner toggle on a manual cell: stay on this date, or move with the project when its start changes
+  const renderAnchorToggle = (anchor: OverrideAnchor, onChange: (next: OverrideAnchor) => void) => (
+    <button
+        className="absolute top-0 right-0 z-20 p-[1px] rounded-sm text-indigo-600 bg-white/80 hover:bg-indigo-100"
+        title={anchor === 'date' ? 'Manual edit stays on this date. Click to move it with the project.' : 'Manual edit moves with the project. Click to keep it on this date.'}
+        onClick={(e) => {
+            e.stopPropagation();
+            onChange(anchor === 'date' ? 'project' : 'date');
+        }}
+    >
+        {anchor === 'date' ? <Pin className="w-2 h-2" /> : <MoveHorizontal className="w-2 h-2" />}
+    </button>
+  );
+
   const renderContent = () => {
     if (viewMode === 'skill') {
         return (
@@ -426,23 +382,8 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                                     );
                                 }
 
-                                const assignedStaffIds = projectAssignments[project.id] || new Set();
-                                let score = 0;
-                                let contributingStaff: string[] = [];
-                                
-                                assignedStaffIds.forEach(staffId => {
-                                    const staff = config.staffTypes.find(s => s.id === staffId);
-                                    const level = staff?.skills?.[skill];
-                                    if (level) {
-                                        if (level === 'Beginner') score += 1;
-                                        else if (level === 'Intermediate') score += 2;
-                                        else if (level === 'Advanced') score += 3;
-                                        
-                                        if (level !== 'None') {
-                                            contributingStaff.push(`${staff?.name} (${level})`);
-                                        }
-                                    }
-                                });
+                                const assignedStaffIds = projectAssignments[project.id] || new Set<string>();
+                                const { score, contributors: contributingStaff } = getSkillCoverage(skill, assignedStaffIds, config);
                                 
                                 return (
                                     <td key={skill} className="p-2 text-center border-r border-slate-100">
@@ -499,14 +440,20 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                <th className="p-3 text-center font-semibold text-slate-600 border-r border-b border-slate-300 min-w-[80px] w-[80px]">
                 Total
               </th>
-              {data.headers.map(dateStr => (
-                <th key={dateStr} className="p-2 text-center font-normal text-slate-500 border-b border-r border-slate-200 min-w-[50px] w-[50px]">
+              {data.headers.map((dateStr, idx) => {
+                const date = parseISO(dateStr);
+                // Label the year on the first column and wherever the horizon crosses into a new year
+                const showYear = idx === 0 || parseISO(data.headers[idx - 1]).getFullYear() !== date.getFullYear();
+                return (
+                <th key={dateStr} className={`p-2 text-center font-normal text-slate-500 border-b border-r border-slate-200 min-w-[50px] w-[50px] ${showYear && idx > 0 ? 'border-l-2 border-l-slate-400' : ''}`}>
                    <div className="flex flex-col items-center">
-                       <span className="text-xs font-bold">{format(parseISO(dateStr), 'MMM')}</span>
-                       <span className="text-[10px]">{format(parseISO(dateStr), 'd')}</span>
+                       {showYear && <span className="text-[9px] font-bold text-indigo-600">{format(date, 'yyyy')}</span>}
+                       <span className="text-xs font-bold">{format(date, 'MMM')}</span>
+                       <span className="text-[10px]">{format(date, 'd')}</span>
                    </div>
                 </th>
-              ))}
+                );
+              })}
             </tr>
           </thead>
           <tbody>
@@ -521,9 +468,10 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                   const isExpanded = expandedGroups.has(group.id);
                   
                   let maxHours = 40;
+                  let staffMember: StaffType | undefined;
                   if (viewMode === 'member') {
                      const staffId = group.staffTypeId;
-                     const staffMember = config.staffTypes.find(s => s.id === staffId);
+                     staffMember = config.staffTypes.find(s => s.id === staffId);
                      if (staffMember) maxHours = staffMember.maxHoursPerWeek;
                   }
 
@@ -585,8 +533,14 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                           const canEdit = viewMode === 'project' && group.projectId;
                           
                           let cellColorClass = '';
+                          // Member view compares against capacity after leave/training in that week
+                          const availability = staffMember ? getWeekAvailability(staffMember, cell.date, config.holidayCalendars) : null;
+                          const capacity = availability ? availability.capacity : maxHours;
+                          const availabilityNote = availability && availability.capacity < maxHours
+                              ? ` — reduced to ${availability.capacity} hrs${availability.reasons.length > 0 ? ` (${availability.reasons.join(', ')})` : ''}`
+                              : '';
                           if (viewMode === 'member') {
-                               if (cell.hours > maxHours) {
+                               if (cell.hours > capacity) {
                                    cellColorClass = 'bg-red-200 text-red-900 border-red-300 font-bold';
                                } else {
                                    cellColorClass = 'bg-emerald-100 text-emerald-800 border-emerald-200';
@@ -599,6 +553,7 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                           const isDragActive = dragState?.startRowId === group.id;
                           const isDragSelected = isDragActive && cIdx >= Math.min(dragState!.startColIdx, dragState!.endColIdx) && cIdx <= Math.max(dragState!.startColIdx, dragState!.endColIdx);
                           const showDragHandle = canEdit && !isEditing && cell.phase !== 'Mixed' && cell.phase !== null;
+                          const markers = viewMode === 'project' && group.projectId ? dateMarkers[group.projectId]?.[cell.date] : undefined;
 
                           return (
                           <td 
@@ -609,6 +564,12 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                             }}
                             onMouseEnter={() => handleDragEnter(group.id, cIdx)}
                           >
+                             {markers && (
+                                <div
+                                    className={`absolute left-0 top-0 bottom-0 w-1 z-20 ${markers.some(m => m.violated) ? 'bg-red-500' : 'bg-violet-500'}`}
+                                    title={markers.map(m => `${m.text}${m.violated ? ' (violated)' : ''}`).join('\n')}
+                                />
+                             )}
                              {isEditing ? (
                                 <div 
                                     className="absolute inset-0 z-50 p-0.5"
@@ -631,7 +592,7 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                                     <>
                                         <div 
                                             className={`h-full w-full rounded flex items-center justify-center text-[10px] font-bold border ${cellColorClass}`}
-                                            title={`${cell.phase || 'Allocated'}: ${cell.hours} hrs${viewMode === 'member' ? ` (Max: ${maxHours})` : ''}`}
+                                            title={`${cell.phase || 'Allocated'}: ${cell.hours} hrs${viewMode === 'member' ? ` (Max: ${capacity})${availabilityNote}` : ''}`}
                                         >
                                             {Math.round(cell.hours)}
                                         </div>
@@ -645,6 +606,16 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                                     </>
                                 )
                              )}
+                             {!isEditing && canEdit && cell.hours > 0 && cell.phaseAnchor && group.projectId && onOverrideAnchorChange &&
+                                renderAnchorToggle(cell.phaseAnchor, next => onOverrideAnchorChange(group.projectId!, '', 0, cell.date, next))}
+                             {!isEditing && cell.hours === 0 && availabilityNote && (
+                                <div
+                                    className="h-full w-full rounded flex items-center justify-center text-[9px] text-slate-400 bg-slate-100 border border-dashed border-slate-300"
+                                    title={`Available: ${capacity} hrs${availabilityNote}`}
+                                >
+                                    {capacity === 0 ? 'Off' : capacity}
+                                </div>
+                             )}
                           </td>
                         )})}
                       </tr>
@@ -652,6 +623,7 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                       {/* Child Rows */}
                       {isExpanded && group.children.map((row) => {
                         const assignedToProject = projectAssignments[row.projectId] || new Set();
+                        const rotation = viewMode === 'project' ? rotationStatuses[`${row.projectId}|${row.staffTypeId}`] : undefined;
                         // For member view, find projects this member is assigned to
                         const assignedToMember = memberAssignments[row.staffTypeId] || new Set();
 
@@ -739,6 +711,7 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                             </td>
                             <td className="sticky left-[350px] z-10 bg-white p-2 border-r border-slate-200 text-slate-400 truncate text-xs">
                                 {viewMode === 'project' ? (
+                                    <div className="flex items-center gap-1">
                                     <select
                                         className="w-full bg-transparent border border-transparent hover:border-slate-300 rounded px-1 py-0.5 text-xs text-slate-600 focus:ring-1 focus:ring-indigo-500 outline-none cursor-pointer transition-all -ml-1"
                                         value={row.staffTypeId}
@@ -751,11 +724,24 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                                             
                                             return (
                                                 <option key={st.id} value={st.id}>
-                                                    {st.name} {st.id === 'placeholder' ? '' : `(${st.role})`}
+                                                    {st.name} ({isPlaceholder(st) ? describePlaceholder(st) : st.role})
                                                 </option>
                                             );
                                         })}
                                     </select>
+                                    {rotation && (
+                                        <span
+                                            className={`text-[9px] font-mono font-bold px-1 rounded shrink-0 ${rotation.state === 'over' ? 'bg-red-50 text-red-600' : rotation.state === 'final' ? 'bg-amber-50 text-amber-600' : 'bg-slate-100 text-slate-500'}`}
+                                            title={rotation.state === 'over'
+                                                ? `Year ${rotation.years} on this entity: beyond the ${rotation.limit}-year rotation limit`
+                                                : rotation.state === 'final'
+                                                    ? `Year ${rotation.years} on this entity: last year before rotating off`
+                                                    : `Year ${rotation.years} of ${rotation.limit} on this entity`}
+                                        >
+                                            {rotation.years}/{rotation.limit}y
+                                        </span>
+                                    )}
+                                    </div>
                                 ) : (
                                     row.projectName
                                 )}
@@ -800,13 +786,15 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
                                         {cell.hours > 0 ? (
                                             <div 
                                                 className={`h-[80%] w-full rounded-sm flex items-center justify-center text-[9px] border ${cell.isOverride ? 'border-indigo-500 ring-1 ring-indigo-200 opacity-100 font-bold' : 'opacity-80'} ${PHASE_COLORS[cell.phase || ''] || 'bg-gray-100'}`}
-                                                title={`${cell.phase}: ${cell.hours} hrs${cell.isOverride ? ' (Manual)' : ''}`}
+                                                title={`${cell.phase}: ${cell.hours} hrs${cell.isOverride ? ` (Manual, ${cell.overrideAnchor === 'date' ? 'stays on date' : 'moves with project'})` : ''}`}
                                             >
                                                 {cell.hours}
                                             </div>
                                         ) : (
                                             <div className="h-full w-full"></div>
                                         )}
+                                        {cell.isOverride && cell.overrideAnchor && onOverrideAnchorChange &&
+                                            renderAnchorToggle(cell.overrideAnchor, next => onOverrideAnchorChange(row.projectId, row.staffTypeId, row.staffIndex, cell.date, next))}
                                         {showDragHandle && (
                                             <div 
                                                 className="absolute -bottom-1 -right-1 w-3 h-3 bg-indigo-600 border border-white cursor-crosshair opacity-0 group-hover/cell:opacity-100 z-20 rounded-sm hover:scale-125 transition-transform"
@@ -838,13 +826,31 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({
               <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wider flex items-center gap-2">
                 <TrendingUp className="w-4 h-4" /> Performance Metrics
               </h3>
-              <button 
-                  onClick={handleExport}
-                  className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-300 rounded text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-indigo-600 transition-colors shadow-sm"
-              >
-                 <Download className="w-3.5 h-3.5" />
-                 Export to Excel
-              </button>
+              <div className="flex items-center gap-2">
+                {onImportEdits && (
+                  <button 
+                      onClick={onImportEdits}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-300 rounded text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-indigo-600 transition-colors shadow-sm"
+                  >
+                     <Upload className="w-3.5 h-3.5" />
+                     Import Edits
+                  </button>
+                )}
+                <button 
+                    onClick={handleExportReport}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-300 rounded text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-indigo-600 transition-colors shadow-sm"
+                >
+                   <FileChartColumn className="w-3.5 h-3.5" />
+                   Export Report
+                </button>
+                <button 
+                    onClick={handleExport}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-300 rounded text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-indigo-600 transition-colors shadow-sm"
+                >
+                   <Download className="w-3.5 h-3.5" />
+                   Export to Excel
+                </button>
+              </div>
          </div>
 
          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -0,0 +1,112 @@
+import React from 'react';
+import { GlobalConfig, ScoringProfile, SkillLevel } from '../types';
+import { SCORING_PRESETS } from '../constants';
+import { getScoringProfile } from '../services/scheduleEngine';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface ScoringProfileEditorProps {
+  config: GlobalConfig;
+  setConfig: React.Dispatch<React.SetStateAction<GlobalConfig>>;
+}
+
+type WeightField = 'teamMatch' | 'overtimePenalty' | 'utilizationReward' | 'memberOverload' | 'loadSmoothing';
+
+const ASSIGNMENT_FIELDS: { field: WeightField; label: string; hint: string }[] = [
+  { field: 'teamMatch', label: 'Team Match', hint: 'Bonus when the candidate is in the project team' },
+  { field: 'overtimePenalty', label: 'Overtime Penalty', hint: 'Per squared hour above capacity' },
+  { field: 'utilizationReward', label: 'Utilization Reward', hint: 'Per hour that fits within capacity' }
+];
+
+const TIMING_FIELDS: { field: WeightField; label: string; hint: string }[] = [
+  { field: 'memberOverload', label: 'Member Overload', hint: 'Per squared hour a member is above capacity in a week' },
+  { field: 'loadSmoothing', label: 'Load Smoothing', hint: 'Per squared hour of total weekly load' }
+];
+
+const SKILL_FIELDS: SkillLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+
+const CUSTOM = 'Custom';
+
+export const ScoringProfileEditor: React.FC<ScoringProfileEditorProps> = ({ config, setConfig }) => {
+  const profile = getScoringProfile(config);
+  const isPreset = SCORING_PRESETS.some(p => p.name === profile.name);
+
+  // Editing a weight turns the profile into a custom one so the preset name doesn't lie
+  const updateProfile = (changes: Partial<ScoringProfile>) => {
+    setConfig({ ...config, scoringProfile: { ...profile, ...changes, name: changes.name ?? (isPreset ? CUSTOM : profile.name) } });
+  };
+
+  const selectPreset = (name: string) => {
+    const preset = SCORING_PRESETS.find(p => p.name === name);
+    if (preset) setConfig({ ...config, scoringProfile: { ...preset, skillLevels: { ...preset.skillLevels } } });
+  };
+
+  const renderWeight = (label: string, hint: string, value: number, onChange: (value: number) => void) => (
+    <div key={label}>
+      <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1" title={hint}>{label}</label>
+      <input
+          type="number"
+          min="0"
+          className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+          value={value}
+          onChange={(e) => onChange(Math.max(0, parseFloat(e.target.value) || 0))}
+      />
+    </div>
+  );
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-md font-bold text-slate-800 flex items-center gap-2">
+              <SlidersHorizontal className="w-4 h-4" />
+              Optimizer Scoring
+          </h3>
+          <div className="flex items-center gap-2">
+              <select
+                  className="px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                  value={isPreset ? profile.name : CUSTOM}
+                  onChange={(e) => selectPreset(e.target.value)}
+              >
+                  {SCORING_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                  {!isPreset && <option value={CUSTOM}>{profile.name}</option>}
+              </select>
+          </div>
+      </div>
+
+      <div className="space-y-4">
+          {!isPreset && (
+              <div>
+                  <label className="text-[9px] uppercase tracking-wider text-slate-400 font-bold block mb-1">Profile Name</label>
+                  <input
+                      type="text"
+                      className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                      value={profile.name}
+                      onChange={(e) => updateProfile({ name: e.target.value })}
+                  />
+              </div>
+          )}
+
+          <div>
+              <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Staff Assignment</div>
+              <div className="grid grid-cols-3 gap-4">
+                  {ASSIGNMENT_FIELDS.map(({ field, label, hint }) =>
+                      renderWeight(label, hint, profile[field], value => updateProfile({ [field]: value }))
+                  )}
+                  {SKILL_FIELDS.map(level =>
+                      renderWeight(`${level} Skill`, `Bonus per required skill at ${level} level`, profile.skillLevels[level] || 0,
+                          value => updateProfile({ skillLevels: { ...profile.skillLevels, [level]: value } }))
+                  )}
+              </div>
+          </div>
+
+          <div>
+              <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Project Timing</div>
+              <div className="grid grid-cols-3 gap-4">
+                  {TIMING_FIELDS.map(({ field, label, hint }) =>
+                      renderWeight(label, hint, profile[field], value => updateProfile({ [field]: value }))
+                  )}
+              </div>
+          </div>
+      </div>
+    </section>
+  );
+};
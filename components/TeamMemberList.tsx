@@ -1,23 +1,37 @@
 
-import React, { useState } from 'react';
-import { GlobalConfig, StaffType, SkillLevel } from '../types';
+import React, { useMemo, useState } from 'react';
+import { GlobalConfig, StaffType, SkillLevel, AvailabilityEntry, ProjectInput, StaffExclusion } from '../types';
 import { TEAMS } from '../constants';
-import { Plus, Trash2, Users, X } from 'lucide-react';
+import { Plus, Trash2, Users, X, FileSpreadsheet, CalendarOff, ShieldAlert } from 'lucide-react';
+import { getIndependenceConflicts, removeStaffFromProjects } from '../services/scheduleEngine';
+import { describeExclusionScope } from '../services/independence';
+import { IndependenceConflictsPanel } from './IndependenceConflictsPanel';
+import { format } from 'date-fns';
 
 interface TeamMemberListProps {
   config: GlobalConfig;
   setConfig: React.Dispatch<React.SetStateAction<GlobalConfig>>;
+  projects: ProjectInput[];
+  setProjects: React.Dispatch<React.SetStateAction<ProjectInput[]>>;
+  onImport?: () => void;
 }
 
-export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfig }) => {
+export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfig, projects, setProjects, onImport }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isConflictsOpen, setIsConflictsOpen] = useState(false);
   const [editingMemberId, setEditingMemberId] = useState<string | null>(null);
   
   const [newName, setNewName] = useState('');
   const [newRole, setNewRole] = useState('');
   const [newHours, setNewHours] = useState<number>(40);
   const [newTeam, setNewTeam] = useState<string>(TEAMS[0]);
+  const [newLocation, setNewLocation] = useState('');
   const [newSkills, setNewSkills] = useState<Record<string, SkillLevel>>({});
+  const [newAvailability, setNewAvailability] = useState<AvailabilityEntry[]>([]);
+  const [newExclusions, setNewExclusions] = useState<StaffExclusion[]>([]);
+
+  const conflicts = useMemo(() => getIndependenceConflicts(projects, config), [projects, config]);
+  const hasRules = config.staffTypes.some(s => s.exclusions && s.exclusions.length > 0);
 
   const openAddModal = () => {
     setEditingMemberId(null);
@@ -25,7 +39,10 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
     setNewRole('Staff Auditor');
     setNewHours(40);
     setNewTeam(TEAMS[0]);
+    setNewLocation('');
     setNewSkills({});
+    setNewAvailability([]);
+    setNewExclusions([]);
     setIsModalOpen(true);
   };
 
@@ -35,12 +52,21 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
     setNewRole(staff.role || 'Staff Auditor');
     setNewHours(staff.maxHoursPerWeek);
     setNewTeam(staff.team || TEAMS[0]);
+    setNewLocation(staff.location || '');
     setNewSkills(staff.skills || {});
+    setNewAvailability(staff.availability || []);
+    setNewExclusions(staff.exclusions || []);
     setIsModalOpen(true);
   };
 
+  const isAvailabilityValid = newAvailability.every(a => a.startDate && a.endDate && a.endDate >= a.startDate);
+  // A rule needs something to match on; an open-ended one would bar the member from everything
+  const isExclusionValid = (e: StaffExclusion) =>
+    !!(e.projectId || e.team || e.startDate || e.endDate) && (!e.startDate || !e.endDate || e.endDate >= e.startDate);
+  const areExclusionsValid = newExclusions.every(isExclusionValid);
+
   const handleSave = () => {
-    if (!newName.trim()) return;
+    if (!newName.trim() || !isAvailabilityValid || !areExclusionsValid) return;
 
     if (editingMemberId) {
         // Edit existing member
@@ -52,7 +78,10 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
                 role: newRole,
                 maxHoursPerWeek: newHours,
                 team: newTeam,
-                skills: newSkills
+                location: newLocation.trim() || undefined,
+                skills: newSkills,
+                availability: newAvailability,
+                exclusions: newExclusions
             } : s)
         });
     } else {
@@ -77,7 +106,10 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
           maxHoursPerWeek: newHours,
           color,
           team: newTeam,
-          skills: newSkills
+          location: newLocation.trim() || undefined,
+          skills: newSkills,
+          availability: newAvailability,
+          exclusions: newExclusions
         };
     
         // Update staff types AND ensure phases have allocation entry (default 0)
@@ -98,6 +130,8 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
     setNewHours(40);
     setNewTeam(TEAMS[0]);
     setNewSkills({});
+    setNewAvailability([]);
+    setNewExclusions([]);
     setIsModalOpen(false);
     setEditingMemberId(null);
   };
@@ -111,6 +145,7 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
         staffAllocation: p.staffAllocation.filter(sa => sa.staffTypeId !== id)
       }))
     });
+    setProjects(prev => removeStaffFromProjects(prev, new Set([id])));
   };
 
   const updateMember = (id: string, field: keyof StaffType, value: any) => {
@@ -120,6 +155,23 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
     });
   };
 
+  const addAvailability = () => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    setNewAvailability(prev => [...prev, { id: `leave-${Date.now()}`, startDate: today, endDate: today, hoursPerWeek: 0, reason: 'Leave' }]);
+  };
+
+  const updateAvailability = (id: string, field: keyof AvailabilityEntry, value: any) => {
+    setNewAvailability(prev => prev.map(a => a.id === id ? { ...a, [field]: value } : a));
+  };
+
+  const addExclusion = () => {
+    setNewExclusions(prev => [...prev, { id: `excl-${Date.now()}`, team: newTeam, reason: '' }]);
+  };
+
+  const updateExclusion = (id: string, changes: Partial<StaffExclusion>) => {
+    setNewExclusions(prev => prev.map(e => e.id === id ? { ...e, ...changes } : e));
+  };
+
   const updateSkillLevel = (skill: string, level: SkillLevel) => {
     setNewSkills(prev => ({
       ...prev,
@@ -135,13 +187,35 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
             <Users className="w-5 h-5 text-indigo-600" />
             Team Members
           </h2>
-          <button 
-              onClick={openAddModal}
-              className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg text-xs font-semibold transition-all shadow-sm active:scale-95"
-          >
-              <Plus className="w-3.5 h-3.5" />
-              Add Member
-          </button>
+          <div className="flex items-center gap-2">
+              {hasRules && (
+                <button
+                    onClick={() => setIsConflictsOpen(true)}
+                    className={`flex items-center gap-1.5 bg-white border px-2 py-1.5 rounded-lg text-xs font-semibold transition-all shadow-sm active:scale-95 ${conflicts.length > 0 ? 'border-red-200 text-red-600 hover:bg-red-50' : 'border-slate-300 text-slate-600 hover:bg-slate-50 hover:text-indigo-600'}`}
+                    title="Assignments that break independence rules"
+                >
+                    <ShieldAlert className="w-3.5 h-3.5" />
+                    Conflicts{conflicts.length > 0 && ` (${conflicts.length})`}
+                </button>
+              )}
+              {onImport && (
+                <button 
+                    onClick={onImport}
+                    className="flex items-center gap-1.5 bg-white border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 text-slate-600 px-2 py-1.5 rounded-lg text-xs font-semibold transition-all shadow-sm active:scale-95"
+                    title="Import team members from Excel/CSV"
+                >
+                    <FileSpreadsheet className="w-3.5 h-3.5" />
+                    Import
+                </button>
+              )}
+            <button 
+                onClick={openAddModal}
+                className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg text-xs font-semibold transition-all shadow-sm active:scale-95"
+            >
+                <Plus className="w-3.5 h-3.5" />
+                Add Member
+            </button>
+          </div>
         </div>
 
         <div className="flex-1 overflow-y-auto custom-scrollbar space-y-3 pr-2 min-h-0">
@@ -165,6 +239,24 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
                                {staff.team && (
                                    <span className="text-[10px] text-slate-400 font-medium uppercase tracking-wider">{staff.team}</span>
                                )}
+                               {staff.availability && staff.availability.length > 0 && (
+                                   <span
+                                       className="flex items-center gap-0.5 text-[10px] text-slate-400"
+                                       title={staff.availability.map(a => `${a.reason || 'Unavailable'}: ${a.startDate} – ${a.endDate} (${a.hoursPerWeek} hrs/wk)`).join('\n')}
+                                   >
+                                       <CalendarOff className="w-3 h-3" />
+                                       {staff.availability.length}
+                                   </span>
+                               )}
+                               {staff.exclusions && staff.exclusions.length > 0 && (
+                                   <span
+                                       className={`flex items-center gap-0.5 text-[10px] ${conflicts.some(c => c.staffTypeId === staff.id) ? 'text-red-600' : 'text-slate-400'}`}
+                                       title={staff.exclusions.map(e => `${e.reason || 'Independence rule'}: ${describeExclusionScope(e, projects)}`).join('\n')}
+                                   >
+                                       <ShieldAlert className="w-3 h-3" />
+                                       {staff.exclusions.length}
+                                   </span>
+                               )}
                            </div>
                       </div>
                       <div className="col-span-5">
@@ -268,6 +360,153 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
                         </div>
                     </div>
 
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1.5">Location <span className="text-slate-400 font-normal">(optional)</span></label>
+                        <input
+                            type="text"
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all placeholder:text-slate-400"
+                            placeholder="e.g., London — used by location holiday calendars"
+                            value={newLocation}
+                            onChange={(e) => setNewLocation(e.target.value)}
+                        />
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between items-center mb-1.5">
+                            <label className="text-sm font-medium text-slate-700">Availability</label>
+                            <button
+                                onClick={addAvailability}
+                                className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium"
+                            >
+                                <Plus className="w-3 h-3" />
+                                Add Period
+                            </button>
+                        </div>
+                        {newAvailability.length === 0 ? (
+                            <p className="text-[10px] text-slate-400">No leave or training planned. Full capacity every week.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {newAvailability.map(a => (
+                                    <div key={a.id} className={`p-2 border rounded-lg bg-slate-50/50 space-y-1.5 ${a.endDate >= a.startDate ? 'border-slate-200' : 'border-red-300'}`}>
+                                        <div className="flex items-center gap-1.5">
+                                            <input
+                                                type="text"
+                                                className="flex-1 px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                                placeholder="Reason (e.g. PTO, Training)"
+                                                value={a.reason}
+                                                onChange={(e) => updateAvailability(a.id, 'reason', e.target.value)}
+                                            />
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                className="w-14 px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                                value={a.hoursPerWeek}
+                                                onChange={(e) => updateAvailability(a.id, 'hoursPerWeek', Math.max(0, parseInt(e.target.value) || 0))}
+                                                title="Hours still available per week during this period"
+                                            />
+                                            <span className="text-[10px] text-slate-400 shrink-0">hrs/wk</span>
+                                            <button
+                                                onClick={() => setNewAvailability(prev => prev.filter(x => x.id !== a.id))}
+                                                className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                        <div className="flex items-center gap-1.5">
+                                            <input
+                                                type="date"
+                                                className="flex-1 px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                                value={a.startDate}
+                                                onChange={(e) => updateAvailability(a.id, 'startDate', e.target.value)}
+                                            />
+                                            <span className="text-[10px] text-slate-400">to</span>
+                                            <input
+                                                type="date"
+                                                className="flex-1 px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                                value={a.endDate}
+                                                onChange={(e) => updateAvailability(a.id, 'endDate', e.target.value)}
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between items-center mb-1.5">
+                            <label className="text-sm font-medium text-slate-700">Independence</label>
+                            <button
+                                onClick={addExclusion}
+                                className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium"
+                            >
+                                <Plus className="w-3 h-3" />
+                                Add Exclusion
+                            </button>
+                        </div>
+                        {newExclusions.length === 0 ? (
+                            <p className="text-[10px] text-slate-400">No conflicts of interest. Can be assigned to any project.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {newExclusions.map(e => (
+                                    <div key={e.id} className={`p-2 border rounded-lg bg-slate-50/50 space-y-1.5 ${isExclusionValid(e) ? 'border-slate-200' : 'border-red-300'}`}>
+                                        <div className="flex items-center gap-1.5">
+                                            <input
+                                                type="text"
+                                                className="flex-1 px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                                placeholder="Reason (e.g. Worked in Treasury until 2025)"
+                                                value={e.reason}
+                                                onChange={(ev) => updateExclusion(e.id, { reason: ev.target.value })}
+                                            />
+                                            <button
+                                                onClick={() => setNewExclusions(prev => prev.filter(x => x.id !== e.id))}
+                                                className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                        <div className="flex items-center gap-1.5">
+                                            <select
+                                                className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                                value={e.projectId || ''}
+                                                onChange={(ev) => updateExclusion(e.id, { projectId: ev.target.value || undefined })}
+                                            >
+                                                <option value="">Any project</option>
+                                                {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                            </select>
+                                            <select
+                                                className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                                value={e.team || ''}
+                                                onChange={(ev) => updateExclusion(e.id, { team: ev.target.value || undefined })}
+                                            >
+                                                <option value="">Any area</option>
+                                                {TEAMS.map(team => <option key={team} value={team}>{team}</option>)}
+                                            </select>
+                                        </div>
+                                        <div className="flex items-center gap-1.5">
+                                            <input
+                                                type="date"
+                                                className="flex-1 px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                                value={e.startDate || ''}
+                                                onChange={(ev) => updateExclusion(e.id, { startDate: ev.target.value || undefined })}
+                                                title="Applies to projects running on or after this date (optional)"
+                                            />
+                                            <span className="text-[10px] text-slate-400">to</span>
+                                            <input
+                                                type="date"
+                                                className="flex-1 px-2 py-1 border border-slate-200 rounded text-xs bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                                                value={e.endDate || ''}
+                                                onChange={(ev) => updateExclusion(e.id, { endDate: ev.target.value || undefined })}
+                                                title="Applies to projects running on or before this date (optional)"
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <p className="text-[10px] text-slate-400 mt-1.5">Hard rules: Auto-Optimize never assigns the member where one applies.</p>
+                    </div>
+
                     <div>
                         <label className="block text-sm font-medium text-slate-700 mb-1.5">Skills & Proficiency</label>
                         <div className="w-full border border-slate-300 rounded-lg h-60 overflow-y-auto bg-slate-50/50 custom-scrollbar divide-y divide-slate-100">
@@ -310,7 +549,7 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
                     </button>
                     <button 
                         onClick={handleSave}
-                        disabled={!newName.trim()}
+                        disabled={!newName.trim() || !isAvailabilityValid || !areExclusionsValid}
                         className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 active:bg-indigo-800 rounded-lg shadow-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         {editingMemberId ? 'Save Changes' : 'Add Member'}
@@ -319,6 +558,15 @@ export const TeamMemberList: React.FC<TeamMemberListProps> = ({ config, setConfi
             </div>
         </div>
       )}
+
+      {isConflictsOpen && (
+        <IndependenceConflictsPanel
+            conflicts={conflicts}
+            projects={projects}
+            config={config}
+            onClose={() => setIsConflictsOpen(false)}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,73 @@
+
+import React from 'react';
+import { AutosaveEntry } from '../services/workspaceStorage';
+import { AlertTriangle, History, RotateCcw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+interface WorkspaceRecoveryDialogProps {
+  error: string;
+  autosaves: AutosaveEntry[];
+  onRestore: (entry: AutosaveEntry) => void;
+  onStartFresh: () => void;
+}
+
+export const WorkspaceRecoveryDialog: React.FC<WorkspaceRecoveryDialogProps> = ({ error, autosaves, onRestore, onStartFresh }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+        <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity" />
+        <div className="relative w-full max-w-md bg-white rounded-xl shadow-2xl transform transition-all flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200 max-h-[600px]">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center gap-2 bg-slate-50/50 shrink-0">
+                <AlertTriangle className="w-5 h-5 text-amber-500" />
+                <h3 className="text-lg font-bold text-slate-800">Recover Workspace</h3>
+            </div>
+
+            <div className="p-6 space-y-4 flex-1 overflow-y-auto custom-scrollbar">
+                <p className="text-sm text-slate-600">
+                    Your saved workspace could not be loaded. {error}
+                </p>
+
+                {autosaves.length > 0 ? (
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1.5">Recent Autosaves</label>
+                        <div className="space-y-2">
+                            {autosaves.map(entry => (
+                                <div key={entry.savedAt} className="flex items-center justify-between p-3 bg-white border border-slate-200 rounded-lg hover:shadow-md transition-all">
+                                    <div className="flex items-center gap-2">
+                                        <History className="w-4 h-4 text-slate-400" />
+                                        <div className="flex flex-col">
+                                            <span className="text-sm font-medium text-slate-700">{format(parseISO(entry.savedAt), 'dd MMM yyyy, HH:mm')}</span>
+                                            <span className="text-[10px] text-slate-400">
+                                                {entry.state.projects.length} projects, {entry.state.config.staffTypes.length} team members
+                                            </span>
+                                        </div>
+                                    </div>
+                                    <button
+                                        onClick={() => onRestore(entry)}
+                                        className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg text-xs font-semibold transition-all shadow-sm active:scale-95"
+                                    >
+                                        <RotateCcw className="w-3.5 h-3.5" />
+                                        Restore
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ) : (
+                    <div className="p-4 text-center text-slate-400 text-xs italic border-2 border-dashed border-slate-100 rounded-lg">
+                        No autosaves are available.
+                    </div>
+                )}
+            </div>
+
+            <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 shrink-0">
+                <button
+                    onClick={onStartFresh}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 hover:bg-slate-200/50 rounded-lg transition-colors"
+                >
+                    Start Fresh
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 
 
-import { GlobalConfig, PhaseName, StaffType, ProjectInput } from './types';
+import { GlobalConfig, PhaseName, StaffType, ProjectInput, WorkspaceViewState, PlanningHorizon, ScoringProfile, RotationRule, OverrideAnchor } from './types';
 
 export const TEAMS = ['Finance', 'IT', 'Operations', 'Compliance', 'General'];
 
@@ -30,8 +30,71 @@ export const DEFAULT_STAFF_TYPES: StaffType[] = [
   { id: 'placeholder', name: 'Placeholder', role: 'Unassigned', maxHoursPerWeek: 40, color: 'bg-slate-200 text-slate-500', team: 'General' },
 ];
 
+export const DEFAULT_HORIZON: PlanningHorizon = { mode: 'year', months: 12 };
+
+export const DEFAULT_HOURS_GRANULARITY = 4;
+export const HOURS_GRANULARITY_OPTIONS = [0.5, 1, 2, 4, 8];
+
+// Where new manual edits are stored unless config.overrideAnchor says otherwise. Edits always stayed
+// on their date before project-relative edits existed, so workspaces without the option keep doing that.
+export const DEFAULT_OVERRIDE_ANCHOR: OverrideAnchor = 'date';
+
+// How long Auto-Optimize may search before it keeps the best plan found
+export const OPTIMIZER_TIME_BUDGET_MS = 30000;
+export const MAX_OPTIMIZATION_RUNS = 20; // Run history kept in the workspace
+
+export const SCORING_PRESETS: ScoringProfile[] = [
+  {
+    name: 'Balanced',
+    teamMatch: 50,
+    skillLevels: { None: 0, Beginner: 10, Intermediate: 20, Advanced: 30 },
+    overtimePenalty: 10,
+    utilizationReward: 1,
+    memberOverload: 100,
+    loadSmoothing: 1
+  },
+  {
+    name: 'Skills first',
+    teamMatch: 20,
+    skillLevels: { None: 0, Beginner: 30, Intermediate: 60, Advanced: 90 },
+    overtimePenalty: 5,
+    utilizationReward: 1,
+    memberOverload: 50,
+    loadSmoothing: 1
+  },
+  {
+    name: 'Balance load',
+    teamMatch: 20,
+    skillLevels: { None: 0, Beginner: 5, Intermediate: 10, Advanced: 15 },
+    overtimePenalty: 40,
+    utilizationReward: 2,
+    memberOverload: 400,
+    loadSmoothing: 2
+  },
+  {
+    name: 'Stay in team',
+    teamMatch: 500,
+    skillLevels: { None: 0, Beginner: 10, Intermediate: 20, Advanced: 30 },
+    overtimePenalty: 10,
+    utilizationReward: 1,
+    memberOverload: 100,
+    loadSmoothing: 1
+  }
+];
+
+export const DEFAULT_SCORING_PROFILE = SCORING_PRESETS[0];
+
+export const DEFAULT_ROTATION_RULE: RotationRule = {
+  maxConsecutiveYears: 3,
+  enforcement: 'penalize',
+  penalty: 500,
+  leadsOnly: true
+};
+
 export const DEFAULT_CONFIG: GlobalConfig = {
   year: 2026,
+  horizon: DEFAULT_HORIZON,
+  hoursGranularity: DEFAULT_HOURS_GRANULARITY,
   staffTypes: DEFAULT_STAFF_TYPES,
   skills: SKILLS_LIST,
   phases: [
@@ -90,7 +153,14 @@ export const DEFAULT_CONFIG: GlobalConfig = {
 const getBasePhases = () => JSON.parse(JSON.stringify(DEFAULT_CONFIG.phases));
 
 export const INITIAL_PROJECTS: ProjectInput[] = [
-  { id: '1', name: 'Cybersecurity Review', budgetHours: 400, startWeekOffset: 0, locked: false, phasesConfig: getBasePhases(), team: 'IT', requiredSkills: ['Cybersecurity', 'IT General Controls'] },
-  { id: '2', name: 'Financial Controls 2026', budgetHours: 600, startWeekOffset: 4, locked: false, phasesConfig: getBasePhases(), team: 'Finance', requiredSkills: ['Financial Accounting', 'Internal Controls (SOX)'] },
-  { id: '3', name: 'HR Compliance Audit', budgetHours: 300, startWeekOffset: 12, locked: false, phasesConfig: getBasePhases(), team: 'Operations', requiredSkills: ['Regulatory Compliance', 'Communication'] },
-];
\ No newline at end of file
+  { id: '1', name: 'Cybersecurity Review', budgetHours: 400, startDate: '2026-01-05', locked: false, phasesConfig: getBasePhases(), team: 'IT', requiredSkills: ['Cybersecurity', 'IT General Controls'] },
+  { id: '2', name: 'Financial Controls 2026', budgetHours: 600, startDate: '2026-02-02', locked: false, phasesConfig: getBasePhases(), team: 'Finance', requiredSkills: ['Financial Accounting', 'Internal Controls (SOX)'] },
+  { id: '3', name: 'HR Compliance Audit', budgetHours: 300, startDate: '2026-03-30', locked: false, phasesConfig: getBasePhases(), team: 'Operations', requiredSkills: ['Regulatory Compliance', 'Communication'] },
+];
+
+export const DEFAULT_VIEW: WorkspaceViewState = {
+  viewMode: 'project',
+  fromDate: '2025-12-29', // Start of the 2026 schedule week
+  toDate: '2026-03-30',
+  selectedTeam: 'All Teams',
+};
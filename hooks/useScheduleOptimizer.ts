@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GlobalConfig, ProjectInput, OptimizationRun } from '../types';
+import { OPTIMIZER_TIME_BUDGET_MS } from '../constants';
+import { OptimizationProgress, OptimizationResult } from '../services/scheduleEngine';
+import { OptimizerMessage, OptimizerRequest } from '../services/optimizerWorker';
+import { randomSeed } from '../services/random';
+
+export interface OptimizerSettings {
+  seed?: number; // Repeat a recorded run
+  seedCount?: number; // Otherwise try this many random seeds and keep the lowest cost
+  iterations?: number;
+  stopAt?: number; // With `seed`: stop where the recorded run stopped
+}
+
+/**
+ * Auto-Optimize in a Web Worker. `onComplete` receives the final plan, or the best plan reported
+ * so far when the user stops the run, together with the run record to keep in the history.
+ * Nothing is applied if the user stops before any plan arrived.
+ *
+ * Re-running a recorded seed has no time budget, so it always reaches the iteration the
+ * recorded run stopped at and returns the same plan.
+ */
+export const useScheduleOptimizer = (onComplete: (result: OptimizationResult, run: OptimizationRun) => void) => {
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [progress, setProgress] = useState<OptimizationProgress | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const bestRef = useRef<OptimizationResult | null>(null);
+  const seedsTriedRef = useRef(1);
+  const timeBudgetRef = useRef<number | undefined>(OPTIMIZER_TIME_BUDGET_MS);
+  // Keep the latest callback without restarting a running worker
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const finish = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    bestRef.current = null;
+    setIsOptimizing(false);
+    setProgress(null);
+  }, []);
+
+  const complete = (result: OptimizationResult, stopped: boolean) => {
+    onCompleteRef.current(result, {
+      id: `run-${Date.now()}`,
+      runAt: new Date().toISOString(),
+      seed: result.seed,
+      iterations: result.iterations,
+      iterationsRun: result.iterationsRun < result.iterations ? result.iterationsRun : undefined,
+      timeBudgetMs: timeBudgetRef.current,
+      seedsTried: seedsTriedRef.current,
+      cost: result.cost,
+      stopped
+    });
+  };
+
+  const start = useCallback((projects: ProjectInput[], config: GlobalConfig, settings: OptimizerSettings = {}) => {
+    if (workerRef.current) return;
+
+    const seeds = settings.seed !== undefined
+      ? [settings.seed]
+      : Array.from({ length: Math.max(1, settings.seedCount || 1) }, () => randomSeed());
+    seedsTriedRef.current = seeds.length;
+    timeBudgetRef.current = settings.seed !== undefined ? undefined : OPTIMIZER_TIME_BUDGET_MS;
+
+    const worker = new Worker(new URL('../services/optimizerWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setIsOptimizing(true);
+
+    worker.onmessage = (e: MessageEvent<OptimizerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        bestRef.current = message.best;
+        setProgress(message.progress);
+      } else if (message.type === 'done') {
+        finish();
+        complete(message.result, false);
+      } else {
+        finish();
+        console.error('Optimization failed', message.message);
+        alert(`Optimization failed: ${message.message}`);
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      console.error('Optimizer worker error', e);
+      alert('Optimization failed to start.');
+    };
+
+    const request: OptimizerRequest = {
+      projects,
+      config,
+      seeds,
+      iterations: settings.iterations,
+      stopAt: settings.stopAt,
+      timeBudgetMs: timeBudgetRef.current
+    };
+    worker.postMessage(request);
+  }, [finish]);
+
+  const stop = useCallback(() => {
+    const best = bestRef.current;
+    finish();
+    if (best) complete(best, true);
+  }, [finish]);
+
+  // Don't leave a worker running after the page unmounts
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { isOptimizing, progress, start, stop };
+};
@@ -0,0 +1,125 @@
+import React, { useCallback, useReducer, useRef } from 'react';
+import { GlobalConfig, ProjectInput } from '../types';
+
+/**
+ * Undo/redo history for the plan (config + projects).
+ *
+ * Every update issued within the same tick is recorded as one step, so a drag-fill
+ * (one onCellUpdate per cell) or an optimization run undoes in a single action.
+ */
+
+interface WorkspaceSnapshot {
+  config: GlobalConfig;
+  projects: ProjectInput[];
+}
+
+interface HistoryState {
+  past: WorkspaceSnapshot[];
+  present: WorkspaceSnapshot;
+  future: WorkspaceSnapshot[];
+  group: number; // Group id of the step currently at `present`
+}
+
+type WorkspaceKey = keyof WorkspaceSnapshot;
+
+// One variant per key, so the value always matches the part of the snapshot it updates
+type UpdateAction = {
+  [K in WorkspaceKey]: { type: 'update'; key: K; value: React.SetStateAction<WorkspaceSnapshot[K]>; group: number }
+}[WorkspaceKey];
+
+type HistoryAction =
+  | UpdateAction
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const HISTORY_LIMIT = 100;
+
+const applyUpdate = <K extends WorkspaceKey>(
+  state: HistoryState,
+  key: K,
+  value: React.SetStateAction<WorkspaceSnapshot[K]>,
+  group: number
+): HistoryState => {
+  const prev = state.present[key];
+  const next = typeof value === 'function' ? (value as (prev: WorkspaceSnapshot[K]) => WorkspaceSnapshot[K])(prev) : value;
+  if (next === prev) return state;
+
+  const present = { ...state.present, [key]: next };
+  // Same group: fold into the current step instead of adding a new one
+  if (group === state.group) {
+    return { ...state, present, future: [] };
+  }
+  return {
+    past: [...state.past, state.present].slice(-HISTORY_LIMIT),
+    present,
+    future: [],
+    group
+  };
+};
+
+const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'update':
+      return action.key === 'config'
+        ? applyUpdate(state, 'config', action.value, action.group)
+        : applyUpdate(state, 'projects', action.value, action.group);
+    case 'undo': {
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        group: -1
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        group: -1
+      };
+    }
+    default:
+      return state;
+  }
+};
+
+export const useUndoableWorkspace = (initial: WorkspaceSnapshot) => {
+  const [state, dispatch] = useReducer(historyReducer, { past: [], present: initial, future: [], group: 0 });
+
+  const groupRef = useRef(0);
+  const groupOpen = useRef(false);
+
+  const nextGroup = () => {
+    if (!groupOpen.current) {
+      groupRef.current++;
+      groupOpen.current = true;
+      queueMicrotask(() => { groupOpen.current = false; });
+    }
+    return groupRef.current;
+  };
+
+  const setConfig: React.Dispatch<React.SetStateAction<GlobalConfig>> = useCallback((value) => {
+    dispatch({ type: 'update', key: 'config', value, group: nextGroup() });
+  }, []);
+
+  const setProjects: React.Dispatch<React.SetStateAction<ProjectInput[]>> = useCallback((value) => {
+    dispatch({ type: 'update', key: 'projects', value, group: nextGroup() });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    config: state.present.config,
+    projects: state.present.projects,
+    setConfig,
+    setProjects,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
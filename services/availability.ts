@@ -0,0 +1,96 @@
+import { HolidayCalendar, StaffType } from '../types';
+import { addDays, format, parseISO } from 'date-fns';
+
+/**
+ * Weekly capacity of a member after holidays, leave, training and other availability entries.
+ * Entries reduce capacity pro rata for the working days (Mon–Fri) they cover in a week;
+ * each holiday on a working day removes one day of capacity.
+ */
+
+const WORKING_DAYS = 5;
+
+export interface WeekAvailability {
+  capacity: number;
+  reasons: string[]; // Holiday names and entry reasons that touch this week
+}
+
+const getWorkingDays = (weekStart: string): string[] => {
+  const monday = parseISO(weekStart);
+  const days: string[] = [];
+  for (let i = 0; i < WORKING_DAYS; i++) days.push(format(addDays(monday, i), 'yyyy-MM-dd'));
+  return days;
+};
+
+/**
+ * Whether a holiday calendar applies to a member (organization-wide, their team or their location).
+ */
+export const calendarAppliesToStaff = (calendar: HolidayCalendar, staff: StaffType): boolean => {
+  if (calendar.scopeType === 'organization') return true;
+  if (calendar.scopeType === 'team') return (staff.team || 'General') === calendar.scopeValue;
+  return !!staff.location && staff.location === calendar.scopeValue;
+};
+
+/**
+ * Whether a holiday calendar applies to a project. Projects have a team but no location,
+ * so only organization-wide and team calendars count.
+ */
+export const calendarAppliesToTeam = (calendar: HolidayCalendar, team: string): boolean => {
+  if (calendar.scopeType === 'organization') return true;
+  return calendar.scopeType === 'team' && calendar.scopeValue === team;
+};
+
+export const getWeekAvailability = (staff: StaffType, weekStart: string, calendars: HolidayCalendar[] = []): WeekAvailability => {
+  const entries = staff.availability || [];
+  const applicable = calendars.filter(c => calendarAppliesToStaff(c, staff));
+  if (entries.length === 0 && applicable.length === 0) return { capacity: staff.maxHoursPerWeek, reasons: [] };
+
+  const days = getWorkingDays(weekStart);
+  const dailyHours = staff.maxHoursPerWeek / WORKING_DAYS;
+  const reasons: string[] = [];
+
+  // A day counts once even if several calendars list it
+  const holidayDays = new Set<string>();
+  applicable.forEach(calendar => {
+    calendar.holidays.forEach(h => {
+      if (!days.includes(h.date) || holidayDays.has(h.date)) return;
+      holidayDays.add(h.date);
+      reasons.push(h.name);
+    });
+  });
+
+  let reduction = holidayDays.size * dailyHours;
+  entries.forEach(entry => {
+    const overlap = days.filter(d => !holidayDays.has(d) && d >= entry.startDate && d <= entry.endDate).length;
+    if (overlap === 0) return;
+    const available = Math.min(Math.max(0, entry.hoursPerWeek), staff.maxHoursPerWeek);
+    reduction += ((staff.maxHoursPerWeek - available) * overlap) / WORKING_DAYS;
+    if (entry.reason) reasons.push(entry.reason);
+  });
+
+  const capacity = Math.max(0, Math.round((staff.maxHoursPerWeek - reduction) * 10) / 10);
+  return { capacity, reasons };
+};
+
+/**
+ * Capacity for each schedule column (ISO Monday headers).
+ */
+export const getCapacityProfile = (staff: StaffType, headers: string[], calendars: HolidayCalendar[] = []): number[] => {
+  return headers.map(h => getWeekAvailability(staff, h, calendars).capacity);
+};
+
+/**
+ * Columns in which a team's projects should not run Fieldwork, from calendars with `blockFieldwork`.
+ */
+export const getFieldworkBlockedWeeks = (headers: string[], team: string, calendars: HolidayCalendar[] = []): Set<number> => {
+  const blocked = new Set<number>();
+  const dates = new Set<string>();
+  calendars
+    .filter(c => c.blockFieldwork && calendarAppliesToTeam(c, team))
+    .forEach(c => c.holidays.forEach(h => dates.add(h.date)));
+  if (dates.size === 0) return blocked;
+
+  headers.forEach((h, idx) => {
+    if (getWorkingDays(h).some(d => dates.has(d))) blocked.add(idx);
+  });
+  return blocked;
+};
@@ -0,0 +1,102 @@
+import { ProjectDependency, ProjectInput } from '../types';
+
+/**
+ * Project-to-project dependencies. Spans are week indices on the planning horizon
+ * (see getProjectSpans in scheduleEngine), so these helpers stay free of date handling.
+ */
+
+export interface ProjectSpan {
+  start: number; // First week column
+  end: number;   // One past the last week column
+}
+
+export interface DependencyViolation {
+  projectId: string;
+  predecessorId: string;
+  dependency: ProjectDependency;
+  earliestStart: number; // Week index the project may start at
+  actualStart: number;
+  message: string;
+}
+
+export const DEPENDENCY_LABELS: Record<ProjectDependency['type'], string> = {
+  'finish-to-start': 'Finish → Start',
+  'start-to-start': 'Start → Start'
+};
+
+/**
+ * First week the dependent project may start in, given the predecessor's span.
+ */
+export const getEarliestStart = (dependency: ProjectDependency, predecessor: ProjectSpan): number => {
+  const anchor = dependency.type === 'finish-to-start' ? predecessor.end : predecessor.start;
+  return anchor + dependency.lagWeeks;
+};
+
+export const findDependencyViolations = (projects: ProjectInput[], spans: Record<string, ProjectSpan>): DependencyViolation[] => {
+  const names = new Map(projects.map(p => [p.id, p.name]));
+  const violations: DependencyViolation[] = [];
+
+  projects.forEach(project => {
+    const span = spans[project.id];
+    if (!span) return;
+    (project.dependencies || []).forEach(dep => {
+      const predecessor = spans[dep.predecessorId];
+      if (!predecessor) return; // Predecessor was removed
+      const earliestStart = getEarliestStart(dep, predecessor);
+      if (span.start >= earliestStart) return;
+      const weeksEarly = earliestStart - span.start;
+      violations.push({
+        projectId: project.id,
+        predecessorId: dep.predecessorId,
+        dependency: dep,
+        earliestStart,
+        actualStart: span.start,
+        message: `${project.name} starts ${weeksEarly} week${weeksEarly === 1 ? '' : 's'} too early for ${DEPENDENCY_LABELS[dep.type]} after ${names.get(dep.predecessorId)}${dep.lagWeeks ? ` (+${dep.lagWeeks}w lag)` : ''}.`
+      });
+    });
+  });
+  return violations;
+};
+
+/**
+ * Names of the projects on a dependency cycle, or null when the graph is acyclic.
+ */
+export const findDependencyCycle = (projects: ProjectInput[]): string[] | null => {
+  const byId = new Map(projects.map(p => [p.id, p]));
+  const state: Record<string, 'visiting' | 'done'> = {};
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state[id] === 'done') return null;
+    if (state[id] === 'visiting') {
+      return path.slice(path.indexOf(id)).map(pid => byId.get(pid)?.name || pid);
+    }
+    state[id] = 'visiting';
+    path.push(id);
+    for (const dep of byId.get(id)?.dependencies || []) {
+      if (!byId.has(dep.predecessorId)) continue;
+      const cycle = visit(dep.predecessorId);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state[id] = 'done';
+    return null;
+  };
+
+  for (const p of projects) {
+    const cycle = visit(p.id);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+/**
+ * Removes dependencies on projects that no longer exist.
+ */
+export const pruneDependencies = (projects: ProjectInput[]): ProjectInput[] => {
+  const ids = new Set(projects.map(p => p.id));
+  return projects.map(p => {
+    if (!p.dependencies || p.dependencies.every(d => ids.has(d.predecessorId))) return p;
+    return { ...p, dependencies: p.dependencies.filter(d => ids.has(d.predecessorId)) };
+  });
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseICalendar } from './icalImport';
+
+const calendar = (...events: string[][]) => [
+  'BEGIN:VCALENDAR',
+  'X-WR-CALNAME:Holidays',
+  ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+  'END:VCALENDAR'
+].join('\r\n');
+
+const RANGE_END = new Date(2028, 11, 31);
+
+describe('parseICalendar recurring events', () => {
+  it('repeats yearly events up to the end of the range', () => {
+    const result = parseICalendar(calendar(
+      ['SUMMARY:Christmas', 'DTSTART;VALUE=DATE:20261225', 'RRULE:FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25']
+    ), RANGE_END);
+    expect(result.holidays.map(h => h.date)).toEqual(['2026-12-25', '2027-12-25', '2028-12-25']);
+    expect(result.skippedRecurrences).toBe(0);
+  });
+
+  it('honours INTERVAL, COUNT, UNTIL and EXDATE', () => {
+    const result = parseICalendar(calendar(
+      ['SUMMARY:Fortnightly', 'DTSTART;VALUE=DATE:20260105', 'RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=3'],
+      ['SUMMARY:Weekly', 'DTSTART;VALUE=DATE:20260302', 'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20260323', 'EXDATE;VALUE=DATE:20260309']
+    ), RANGE_END);
+    expect(result.holidays.map(h => h.date)).toEqual([
+      '2026-01-05', '2026-01-19', '2026-02-02',
+      '2026-03-02', '2026-03-16', '2026-03-23'
+    ]);
+  });
+
+  it('repeats every day of a multi-day event', () => {
+    const result = parseICalendar(calendar(
+      ['SUMMARY:Shutdown', 'DTSTART;VALUE=DATE:20261228', 'DTEND;VALUE=DATE:20261230', 'RRULE:FREQ=YEARLY;COUNT=2']
+    ), RANGE_END);
+    expect(result.holidays.map(h => h.date)).toEqual(['2026-12-28', '2026-12-29', '2027-12-28', '2027-12-29']);
+  });
+
+  it('counts rules it cannot repeat and keeps their first date', () => {
+    const result = parseICalendar(calendar(
+      ['SUMMARY:Thanksgiving', 'DTSTART;VALUE=DATE:20261126', 'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH'],
+      ['SUMMARY:Month end', 'DTSTART;VALUE=DATE:20260130', 'RRULE:FREQ=MONTHLY']
+    ), RANGE_END);
+    expect(result.holidays.map(h => h.date)).toEqual(['2026-01-30', '2026-11-26']);
+    expect(result.skippedRecurrences).toBe(2);
+  });
+});
@@ -0,0 +1,171 @@
+import { Holiday } from '../types';
+import { addDays, addMilliseconds, addWeeks, addYears, format, isValid, startOfDay } from 'date-fns';
+
+/**
+ * Minimal iCalendar (.ics) reader for holiday feeds. Only VEVENT dates and summaries are used;
+ * multi-day events are expanded into one holiday per day. Yearly and weekly RRULEs are repeated
+ * up to the end of the range the caller plans for.
+ */
+
+export interface ICalImportResult {
+  calendarName: string | null; // X-WR-CALNAME, when present
+  holidays: Holiday[];
+  skipped: number; // Events without a readable start date
+  skippedRecurrences: number; // Recurring events whose rule could not be repeated; only their first date is imported
+}
+
+// Lines starting with a space or tab continue the previous line (RFC 5545 folding)
+const unfoldLines = (text: string): string[] => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else {
+      lines.push(line);
+    }
+  });
+  return lines;
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+// Accepts DATE (20261225) and DATE-TIME (20261225T093000Z) values. The time is read as written;
+// the time zone is ignored, since holidays are placed on the calendar day the feed shows
+const parseICalDate = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) return null;
+  const date = new Date(
+    Number(match[1]), Number(match[2]) - 1, Number(match[3]),
+    Number(match[4] || 0), Number(match[5] || 0), Number(match[6] || 0)
+  );
+  return isValid(date) ? date : null;
+};
+
+const parseRule = (value: string): Record<string, string> => {
+  const rule: Record<string, string> = {};
+  value.trim().split(';').forEach(part => {
+    const [key, v] = part.split('=');
+    if (key && v !== undefined) rule[key.toUpperCase()] = v.toUpperCase();
+  });
+  return rule;
+};
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Start dates of every occurrence of a yearly or weekly rule (INTERVAL, COUNT and UNTIL) that
+ * begins on or before `rangeEnd`, or null for any other rule. BY* parts are only accepted when
+ * they repeat what DTSTART already says, e.g. BYMONTH=12;BYMONTHDAY=25 on a 25 December start.
+ */
+const expandRule = (rule: Record<string, string>, start: Date, rangeEnd: Date): Date[] | null => {
+  const { FREQ, INTERVAL, COUNT, UNTIL, BYMONTH, BYMONTHDAY, BYDAY, WKST, ...rest } = rule;
+  if (Object.keys(rest).length > 0) return null;
+  if (FREQ === 'YEARLY') {
+    if (BYDAY !== undefined) return null;
+    if (BYMONTH !== undefined && Number(BYMONTH) !== start.getMonth() + 1) return null;
+    if (BYMONTHDAY !== undefined && Number(BYMONTHDAY) !== start.getDate()) return null;
+  } else if (FREQ === 'WEEKLY') {
+    if (BYMONTH !== undefined || BYMONTHDAY !== undefined) return null;
+    if (BYDAY !== undefined && BYDAY !== WEEKDAYS[start.getDay()]) return null;
+  } else {
+    return null;
+  }
+
+  const interval = INTERVAL ? Number(INTERVAL) : 1;
+  const count = COUNT ? Number(COUNT) : Infinity;
+  const until = UNTIL ? parseICalDate(UNTIL) : null;
+  if (!(interval >= 1) || !(count >= 1) || (UNTIL && !until)) return null;
+
+  const last = until && until < rangeEnd ? until : rangeEnd;
+  const starts: Date[] = [];
+  for (let i = 0; starts.length < count; i++) {
+    const next = FREQ === 'YEARLY' ? addYears(start, i * interval) : addWeeks(start, i * interval);
+    if (next > last) break;
+    // 29 February only recurs in leap years
+    if (FREQ === 'YEARLY' && next.getDate() !== start.getDate()) continue;
+    starts.push(next);
+  }
+  return starts;
+};
+
+/**
+ * @param rangeEnd Recurring events are repeated up to this date; one-off events are read whatever their date.
+ */
+export const parseICalendar = (text: string, rangeEnd: Date): ICalImportResult => {
+  const holidays: Holiday[] = [];
+  let calendarName: string | null = null;
+  let skipped = 0;
+  let skippedRecurrences = 0;
+
+  let inEvent = false;
+  let summary = '';
+  let start: Date | null = null;
+  let end: Date | null = null;
+  let rule: Record<string, string> | null = null;
+  let excluded = new Set<string>();
+
+  unfoldLines(text).forEach(line => {
+    const sep = line.indexOf(':');
+    if (sep === -1) return;
+    const [name] = line.slice(0, sep).toUpperCase().split(';');
+    const value = line.slice(sep + 1);
+
+    if (name === 'BEGIN' && value.trim().toUpperCase() === 'VEVENT') {
+      inEvent = true;
+      summary = '';
+      start = null;
+      end = null;
+      rule = null;
+      excluded = new Set();
+      return;
+    }
+
+    if (name === 'END' && value.trim().toUpperCase() === 'VEVENT') {
+      inEvent = false;
+      if (!start) {
+        skipped++;
+        return;
+      }
+      const eventStart: Date = start;
+      let starts = [eventStart];
+      if (rule) {
+        const expanded = expandRule(rule, eventStart, rangeEnd);
+        if (expanded) starts = expanded.filter(s => !excluded.has(format(s, 'yyyy-MM-dd')));
+        else skippedRecurrences++;
+      }
+      // DTEND is exclusive for all-day and timed events alike, so an event ending at midnight
+      // does not block the next day; a missing DTEND means a single day
+      const duration = end && end > eventStart ? end.getTime() - eventStart.getTime() : 0;
+      starts.forEach(occurrence => {
+        const first = startOfDay(occurrence);
+        const last = duration > 0 ? startOfDay(addMilliseconds(occurrence, duration - 1)) : first;
+        for (let d: Date = first; d <= last; d = addDays(d, 1)) {
+          holidays.push({ date: format(d, 'yyyy-MM-dd'), name: summary || 'Holiday' });
+        }
+      });
+      return;
+    }
+
+    if (!inEvent) {
+      if (name === 'X-WR-CALNAME') calendarName = unescapeText(value);
+      return;
+    }
+
+    if (name === 'SUMMARY') summary = unescapeText(value);
+    if (name === 'DTSTART') start = parseICalDate(value);
+    if (name === 'DTEND') end = parseICalDate(value);
+    if (name === 'RRULE') rule = parseRule(value);
+    if (name === 'EXDATE') {
+      value.split(',').map(parseICalDate).forEach(d => { if (d) excluded.add(format(d, 'yyyy-MM-dd')); });
+    }
+  });
+
+  // Same day listed twice (e.g. overlapping events) keeps the first name
+  const seen = new Set<string>();
+  const unique = holidays
+    .filter(h => (seen.has(h.date) ? false : (seen.add(h.date), true)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { calendarName, holidays: unique, skipped, skippedRecurrences };
+};
@@ -0,0 +1,84 @@
+import { GlobalConfig, ProjectInput, StaffExclusion, StaffType } from '../types';
+
+/**
+ * Auditor independence rules. Which dates a project covers depends on the schedule, so callers
+ * pass its planned period (see getIndependenceConflicts in scheduleEngine).
+ */
+
+export interface ProjectPeriod {
+  start: string; // yyyy-MM-dd
+  end: string;   // yyyy-MM-dd, inclusive
+}
+
+export interface IndependenceConflict {
+  projectId: string;
+  projectName: string;
+  staffTypeId: string;
+  staffName: string;
+  exclusion: StaffExclusion;
+  message: string;
+}
+
+const matchesExclusion = (exclusion: StaffExclusion, project: ProjectInput, period: ProjectPeriod): boolean => {
+  if (exclusion.projectId && exclusion.projectId !== project.id) return false;
+  if (exclusion.team && exclusion.team !== (project.team || 'General')) return false;
+  if (exclusion.startDate && period.end < exclusion.startDate) return false;
+  if (exclusion.endDate && period.start > exclusion.endDate) return false;
+  return true;
+};
+
+/**
+ * The first rule that keeps `staff` off `project`, if any.
+ */
+export const findExclusion = (staff: StaffType, project: ProjectInput, period: ProjectPeriod): StaffExclusion | undefined =>
+  (staff.exclusions || []).find(e => matchesExclusion(e, project, period));
+
+/**
+ * Human-readable scope of a rule, e.g. "Treasury projects from 2026-01-01".
+ */
+export const describeExclusionScope = (exclusion: StaffExclusion, projects: ProjectInput[]): string => {
+  const target = exclusion.projectId
+    ? projects.find(p => p.id === exclusion.projectId)?.name || 'a removed project'
+    : exclusion.team ? `${exclusion.team} projects` : 'all projects';
+  const from = exclusion.startDate ? ` from ${exclusion.startDate}` : '';
+  const until = exclusion.endDate ? ` until ${exclusion.endDate}` : '';
+  return `${target}${from}${until}`;
+};
+
+export const describeConflict = (staff: StaffType, project: ProjectInput, exclusion: StaffExclusion): string =>
+  `${staff.name} may not work on ${project.name}: ${exclusion.reason || 'independence rule'}.`;
+
+export const hasExclusions = (config: GlobalConfig): boolean =>
+  config.staffTypes.some(s => s.exclusions && s.exclusions.length > 0);
+
+/**
+ * Members assigned to projects their exclusion rules forbid. Placeholders have no rules.
+ */
+export const findIndependenceConflicts = (
+  projects: ProjectInput[],
+  config: GlobalConfig,
+  getPeriod: (project: ProjectInput) => ProjectPeriod
+): IndependenceConflict[] => {
+  const conflicts: IndependenceConflict[] = [];
+  if (!hasExclusions(config)) return conflicts;
+
+  projects.forEach(project => {
+    const period = getPeriod(project);
+    const assignedIds = new Set<string>();
+    (project.phasesConfig || config.phases).forEach(ph => ph.staffAllocation.forEach(sa => assignedIds.add(sa.staffTypeId)));
+    assignedIds.forEach(id => {
+      const staff = config.staffTypes.find(s => s.id === id);
+      const exclusion = staff && findExclusion(staff, project, period);
+      if (!exclusion) return;
+      conflicts.push({
+        projectId: project.id,
+        projectName: project.name,
+        staffTypeId: staff.id,
+        staffName: staff.name,
+        exclusion,
+        message: describeConflict(staff, project, exclusion)
+      });
+    });
+  });
+  return conflicts;
+};
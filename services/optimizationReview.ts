@@ -0,0 +1,114 @@
+import { GlobalConfig, PhaseName, ProjectInput } from '../types';
+import { getPhaseDuration } from './scheduleEngine';
+import { isPlaceholderId } from './placeholders';
+
+/**
+ * Per-project differences between the plan Auto-Optimize started from and the plan it proposes,
+ * so the user can accept them project by project.
+ */
+
+export interface PhaseLengthChange {
+  phase: PhaseName;
+  before: number; // Weeks
+  after: number;
+}
+
+export interface PlaceholderFill {
+  phase: PhaseName;
+  staffTypeId: string;
+  staffName: string;
+}
+
+export interface ProposedChange {
+  projectId: string;
+  projectName: string;
+  startBefore: string;
+  startAfter: string;
+  phaseLengths: PhaseLengthChange[];
+  fills: PlaceholderFill[];
+}
+
+export const getProposedChanges = (before: ProjectInput[], after: ProjectInput[], config: GlobalConfig): ProposedChange[] => {
+  const changes: ProposedChange[] = [];
+
+  after.forEach(proposed => {
+    const original = before.find(p => p.id === proposed.id);
+    if (!original) return;
+
+    const originalPhases = original.phasesConfig || config.phases;
+    const proposedPhases = proposed.phasesConfig || config.phases;
+    const phaseLengths: PhaseLengthChange[] = [];
+    const fills: PlaceholderFill[] = [];
+
+    proposedPhases.forEach((phase, pIdx) => {
+      const previous = originalPhases[pIdx];
+      if (!previous) return;
+      if (getPhaseDuration(previous) !== getPhaseDuration(phase)) {
+        phaseLengths.push({ phase: phase.name, before: getPhaseDuration(previous), after: getPhaseDuration(phase) });
+      }
+      phase.staffAllocation.forEach((sa, aIdx) => {
+        const before = previous.staffAllocation[aIdx]?.staffTypeId;
+        if (before && isPlaceholderId(config, before) && !isPlaceholderId(config, sa.staffTypeId)) {
+          const staff = config.staffTypes.find(s => s.id === sa.staffTypeId);
+          fills.push({ phase: phase.name, staffTypeId: sa.staffTypeId, staffName: staff?.name || sa.staffTypeId });
+        }
+      });
+    });
+
+    if (original.startDate === proposed.startDate && phaseLengths.length === 0 && fills.length === 0) return;
+    changes.push({
+      projectId: proposed.id,
+      projectName: proposed.name,
+      startBefore: original.startDate,
+      startAfter: proposed.startDate,
+      phaseLengths,
+      fills
+    });
+  });
+
+  return changes;
+};
+
+/**
+ * Applies what the optimizer changed in each accepted project: the start date, phase lengths and
+ * placeholder fills, each only where it differs from the plan the optimizer started from. Everything
+ * else, including edits made while the optimizer was running, stays as it is now.
+ */
+export const applyProposedChanges = (
+  projects: ProjectInput[],
+  base: ProjectInput[],
+  proposed: ProjectInput[],
+  acceptedIds: Set<string>,
+  config: GlobalConfig
+): ProjectInput[] => {
+  return projects.map(p => {
+    if (!acceptedIds.has(p.id)) return p;
+    const original = base.find(o => o.id === p.id);
+    const next = proposed.find(o => o.id === p.id);
+    if (!original || !next) return p;
+
+    const originalPhases = original.phasesConfig || config.phases;
+    const proposedPhases = next.phasesConfig || config.phases;
+    const phasesConfig = (p.phasesConfig || config.phases).map((phase, pIdx) => {
+      const before = originalPhases[pIdx];
+      const after = proposedPhases[pIdx];
+      if (!before || !after || before.name !== phase.name) return phase;
+      return {
+        ...phase,
+        weeks: getPhaseDuration(after) !== getPhaseDuration(before) ? after.weeks : phase.weeks,
+        // A fill only lands on an allocation that still holds the placeholder the optimizer replaced
+        staffAllocation: phase.staffAllocation.map((sa, aIdx) => {
+          const was = before.staffAllocation[aIdx]?.staffTypeId;
+          const filled = after.staffAllocation[aIdx]?.staffTypeId;
+          return filled && was === sa.staffTypeId && filled !== was && isPlaceholderId(config, was) ? { ...sa, staffTypeId: filled } : sa;
+        })
+      };
+    });
+
+    return {
+      ...p,
+      startDate: next.startDate !== original.startDate ? next.startDate : p.startDate,
+      phasesConfig
+    };
+  });
+};
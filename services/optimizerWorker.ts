@@ -0,0 +1,69 @@
+import { GlobalConfig, ProjectInput } from '../types';
+import { optimizeSchedule, OptimizationProgress, OptimizationResult } from './scheduleEngine';
+
+/**
+ * Runs optimizeSchedule off the main thread. The search loop is synchronous, so the worker can't
+ * receive a stop message while it runs; instead it streams the best plan so far with each progress
+ * report and the page terminates the worker when the user stops it.
+ */
+
+export interface OptimizerRequest {
+  projects: ProjectInput[];
+  config: GlobalConfig;
+  seeds: number[]; // One run per seed; the lowest cost wins
+  iterations?: number;
+  stopAt?: number; // Replays stop at the recorded iteration
+  timeBudgetMs?: number; // Shared by all seeds; unset for replays, which must reach `stopAt`
+}
+
+export type OptimizerMessage =
+  | { type: 'progress'; progress: OptimizationProgress; best: OptimizationResult }
+  | { type: 'done'; result: OptimizationResult }
+  | { type: 'error'; message: string };
+
+const SNAPSHOT_INTERVAL_MS = 250; // Cloning the plan for every report would slow the search
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<OptimizerRequest>) => {
+  const { projects, config, seeds, iterations, stopAt, timeBudgetMs } = e.data;
+  const startedAt = Date.now();
+  let lastPosted = -Infinity;
+  let best: OptimizationResult | null = null;
+
+  try {
+    seeds.forEach((seed, runIndex) => {
+      const result = optimizeSchedule(projects, config, {
+        seed,
+        iterations,
+        stopAt,
+        timeBudgetMs: timeBudgetMs === undefined ? undefined : timeBudgetMs / seeds.length,
+        onProgress: (progress, current) => {
+          const elapsedMs = Date.now() - startedAt;
+          if (elapsedMs - lastPosted < SNAPSHOT_INTERVAL_MS) return;
+          lastPosted = elapsedMs;
+          const leader = best && best.cost <= current.cost ? best : current;
+          const message: OptimizerMessage = {
+            type: 'progress',
+            // Overall progress across all seeds
+            progress: {
+              iteration: runIndex * progress.iterations + progress.iteration,
+              iterations: seeds.length * progress.iterations,
+              elapsedMs,
+              bestCost: leader.cost,
+              timeBudgetMs
+            },
+            best: leader
+          };
+          ctx.postMessage(message);
+        }
+      });
+      if (!best || result.cost < best.cost) best = result;
+    });
+    const message: OptimizerMessage = { type: 'done', result: best! };
+    ctx.postMessage(message);
+  } catch (err) {
+    const message: OptimizerMessage = { type: 'error', message: err instanceof Error ? err.message : String(err) };
+    ctx.postMessage(message);
+  }
+};
@@ -0,0 +1,52 @@
+import { GlobalConfig, SkillLevel, StaffType } from '../types';
+
+/**
+ * Placeholders are staff types that stand in for work nobody is staffed on yet. The built-in
+ * `placeholder` accepts any member; typed placeholders carry a `placeholder` requirement and only
+ * accept members with the same role (and the minimum skill level, when one is set).
+ */
+
+export const GENERIC_PLACEHOLDER_ID = 'placeholder';
+
+export const SKILL_LEVEL_ORDER: SkillLevel[] = ['None', 'Beginner', 'Intermediate', 'Advanced'];
+
+export const isPlaceholder = (staff: StaffType | undefined): boolean =>
+  !!staff && (staff.id === GENERIC_PLACEHOLDER_ID || !!staff.placeholder);
+
+// Whether an allocation's staff type id is a placeholder rather than a person
+export const isPlaceholderId = (config: GlobalConfig, staffTypeId: string): boolean =>
+  staffTypeId === GENERIC_PLACEHOLDER_ID || isPlaceholder(config.staffTypes.find(s => s.id === staffTypeId));
+
+const sameRole = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Whether `member` may fill `placeholder`. The generic placeholder takes anyone.
+ */
+export const canFillPlaceholder = (member: StaffType, placeholder: StaffType | undefined): boolean => {
+  const requirement = placeholder?.placeholder;
+  if (!requirement) return true;
+  if (!sameRole(member.role, placeholder!.role)) return false;
+  if (requirement.skill && requirement.minLevel) {
+    const level = member.skills?.[requirement.skill] || 'None';
+    if (SKILL_LEVEL_ORDER.indexOf(level) < SKILL_LEVEL_ORDER.indexOf(requirement.minLevel)) return false;
+  }
+  return true;
+};
+
+/**
+ * What a placeholder needs, e.g. "Audit Lead, Advanced+ in SQL"; "Any role" for the generic one.
+ */
+export const describePlaceholder = (placeholder: StaffType | undefined): string => {
+  const requirement = placeholder?.placeholder;
+  if (!requirement) return 'Any role';
+  const level = requirement.skill && requirement.minLevel && requirement.minLevel !== 'None'
+    ? `, ${requirement.minLevel}${requirement.minLevel === 'Advanced' ? '' : '+'} in ${requirement.skill}`
+    : '';
+  return `${placeholder!.role}${level}`;
+};
+
+/**
+ * Roles held by real members, for choosing what a typed placeholder requires.
+ */
+export const getMemberRoles = (config: GlobalConfig): string[] =>
+  Array.from(new Set(config.staffTypes.filter(s => !isPlaceholder(s)).map(s => s.role.trim()))).filter(Boolean).sort();
@@ -0,0 +1,97 @@
+import { PhaseName, ProjectInput, ProjectMilestone } from '../types';
+
+/**
+ * Per-project date constraints: earliest start, latest finish and fixed milestones. Like the
+ * dependency helpers these work on week indices of the planning horizon; the caller converts
+ * dates with `toWeek` (see getConstraintViolations in scheduleEngine).
+ */
+
+export interface PhaseTimeline {
+  name: PhaseName;
+  start: number; // First week column
+  end: number;   // One past the last week column
+}
+
+export interface ProjectTimeline {
+  start: number;
+  end: number; // One past the last week column
+  phases: PhaseTimeline[];
+}
+
+export type ConstraintKind = 'earliest-start' | 'latest-finish' | 'milestone';
+
+export interface ConstraintViolation {
+  projectId: string;
+  kind: ConstraintKind;
+  date: string; // The constraint's date
+  weeksOff: number; // How far the plan is from meeting it
+  message: string;
+}
+
+export const MILESTONE_EDGE_LABELS: Record<ProjectMilestone['edge'], string> = {
+  start: 'starts',
+  end: 'ends'
+};
+
+const plural = (weeks: number) => `${weeks} week${weeks === 1 ? '' : 's'}`;
+
+export const findConstraintViolations = (
+  projects: ProjectInput[],
+  timelines: Record<string, ProjectTimeline>,
+  toWeek: (date: string) => number
+): ConstraintViolation[] => {
+  const violations: ConstraintViolation[] = [];
+
+  projects.forEach(project => {
+    const timeline = timelines[project.id];
+    if (!timeline) return;
+
+    if (project.earliestStart) {
+      const weeksOff = toWeek(project.earliestStart) - timeline.start;
+      if (weeksOff > 0) {
+        violations.push({
+          projectId: project.id,
+          kind: 'earliest-start',
+          date: project.earliestStart,
+          weeksOff,
+          message: `${project.name} starts ${plural(weeksOff)} before its earliest start (${project.earliestStart}).`
+        });
+      }
+    }
+
+    if (project.latestFinish) {
+      const weeksOff = (timeline.end - 1) - toWeek(project.latestFinish);
+      if (weeksOff > 0) {
+        violations.push({
+          projectId: project.id,
+          kind: 'latest-finish',
+          date: project.latestFinish,
+          weeksOff,
+          message: `${project.name} finishes ${plural(weeksOff)} after its report due date (${project.latestFinish}).`
+        });
+      }
+    }
+
+    (project.milestones || []).forEach(milestone => {
+      const phase = timeline.phases.find(p => p.name === milestone.phase);
+      if (!phase || phase.end <= phase.start) return; // Phase not scheduled, nothing to pin
+      const actual = milestone.edge === 'start' ? phase.start : phase.end - 1;
+      const weeksOff = Math.abs(actual - toWeek(milestone.date));
+      if (weeksOff > 0) {
+        violations.push({
+          projectId: project.id,
+          kind: 'milestone',
+          date: milestone.date,
+          weeksOff,
+          message: `${project.name}: ${milestone.name} (${milestone.phase} ${MILESTONE_EDGE_LABELS[milestone.edge]} ${milestone.date}) is ${plural(weeksOff)} off.`
+        });
+      }
+    });
+  });
+
+  return violations;
+};
+
+/** Total weeks a set of violations is off by; 0 when every constraint is met. */
+export const getConstraintWeeksOff = (violations: ConstraintViolation[]): number =>
+  violations.reduce((sum, v) => sum + v.weeksOff, 0);
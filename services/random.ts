@@ -0,0 +1,20 @@
+/**
+ * Seedable pseudo-random numbers for the optimizer, so a run can be repeated exactly.
+ */
+
+export type RandomSource = () => number; // Uniform in [0, 1), like Math.random
+
+// mulberry32: small, fast, and good enough for picking optimizer moves
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** New seed for a run the user didn't pin; a positive 32-bit integer that is easy to read out. */
+export const randomSeed = (): number => Math.floor(Math.random() * 0x7FFFFFFF) + 1;
@@ -0,0 +1,276 @@
+import * as XLSX from 'xlsx';
+import { GlobalConfig, ProjectInput, ScheduleData } from '../types';
+import { TEAMS } from '../constants';
+import { calculateScheduleStats, calculateMemberUtilization, getSkillCoverage } from './scheduleMetrics';
+import { AssignmentRationale } from './scheduleEngine';
+import { IndependenceConflict, describeExclusionScope } from './independence';
+import { format, parseISO } from 'date-fns';
+
+/**
+ * Management reporting pack built from the currently displayed schedule.
+ * Numbers come from scheduleMetrics so they match the dashboard and the skill view.
+ */
+
+const HOURS_FORMAT = '#,##0.0';
+const PERCENT_FORMAT = '0.0%';
+const SCORE_FORMAT = '#,##0.0';
+
+interface ColumnSpec {
+  header: string;
+  width: number;
+  format?: string;
+}
+
+// Builds a sheet with column widths, number formats and an autofilter on the header row
+const buildTableSheet = (columns: ColumnSpec[], rows: any[][]): XLSX.WorkSheet => {
+  const ws = XLSX.utils.aoa_to_sheet([columns.map(c => c.header), ...rows]);
+  ws['!cols'] = columns.map(c => ({ wch: c.width }));
+
+  columns.forEach((col, c) => {
+    if (!col.format) return;
+    rows.forEach((_, r) => {
+      const cell = ws[XLSX.utils.encode_cell({ r: r + 1, c })];
+      if (cell && cell.t === 'n') cell.z = col.format;
+    });
+  });
+
+  if (rows.length > 0) {
+    ws['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: columns.length - 1 } }) };
+  }
+  return ws;
+};
+
+export const buildManagementReport = (data: ScheduleData, projects: ProjectInput[], config: GlobalConfig): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+  const stats = calculateScheduleStats(data, projects, config);
+  const members = calculateMemberUtilization(data, config);
+
+  const periodStart = data.headers.length > 0 ? format(parseISO(data.headers[0]), 'dd MMM yyyy') : '-';
+  const periodEnd = data.headers.length > 0 ? format(parseISO(data.headers[data.headers.length - 1]), 'dd MMM yyyy') : '-';
+
+  // --- Summary ---
+  const summary = XLSX.utils.aoa_to_sheet([
+    ['Audit Resource Report'],
+    [],
+    ['Period', `${periodStart} – ${periodEnd}`],
+    ['Weeks', data.headers.length],
+    ['Projects', projects.length],
+    ['Generated', format(new Date(), 'dd MMM yyyy HH:mm')],
+    [],
+    ['Total Avg Hrs/Wk', stats.totalAvgWeekly],
+    ['Overtime Hours', stats.totalOvertime],
+    ['Utilization', stats.utilization / 100],
+    ['Skills Score', stats.totalSkillScore]
+  ]);
+  summary['!cols'] = [{ wch: 22 }, { wch: 30 }];
+  summary['B8'].z = HOURS_FORMAT;
+  summary['B9'].z = HOURS_FORMAT;
+  summary['B10'].z = PERCENT_FORMAT;
+  summary['B11'].z = '0.0';
+  XLSX.utils.book_append_sheet(wb, summary, 'Summary');
+
+  // --- Utilization per member ---
+  const utilizationRows = members
+    .sort((a, b) => b.utilization - a.utilization)
+    .map(m => [m.label, m.role, m.team, m.maxHoursPerWeek, m.capacityHours, m.scheduledHours, m.utilization / 100, m.overtimeHours, m.overloadedWeeks, m.peakWeekHours]);
+  XLSX.utils.book_append_sheet(wb, buildTableSheet([
+    { header: 'Team Member', width: 24 },
+    { header: 'Role', width: 20 },
+    { header: 'Team', width: 12 },
+    { header: 'Max Hrs/Wk', width: 11, format: HOURS_FORMAT },
+    { header: 'Capacity Hrs', width: 13, format: HOURS_FORMAT },
+    { header: 'Scheduled Hrs', width: 14, format: HOURS_FORMAT },
+    { header: 'Utilization', width: 11, format: PERCENT_FORMAT },
+    { header: 'Overtime Hrs', width: 13, format: HOURS_FORMAT },
+    { header: 'Overloaded Weeks', width: 17 },
+    { header: 'Peak Week Hrs', width: 14, format: HOURS_FORMAT }
+  ], utilizationRows), 'Utilization');
+
+  // --- Phase hours vs budget per project ---
+  const scheduledByPhase: Record<string, Record<string, number>> = {};
+  data.rows.forEach(row => {
+    if (!scheduledByPhase[row.projectId]) scheduledByPhase[row.projectId] = {};
+    row.cells.forEach(cell => {
+      if (!cell.phase || !cell.hours) return;
+      scheduledByPhase[row.projectId][cell.phase] = (scheduledByPhase[row.projectId][cell.phase] || 0) + cell.hours;
+    });
+  });
+
+  const phaseRows: any[][] = [];
+  projects.forEach(p => {
+    const phases = p.phasesConfig || config.phases;
+    let budgetTotal = 0;
+    let scheduledTotal = 0;
+    phases.forEach(phase => {
+      const budget = (p.budgetHours * phase.percentBudget) / 100;
+      const scheduled = scheduledByPhase[p.id]?.[phase.name] || 0;
+      budgetTotal += budget;
+      scheduledTotal += scheduled;
+      phaseRows.push([p.name, p.team || '', phase.name, budget, scheduled, scheduled - budget, budget > 0 ? (scheduled - budget) / budget : 0]);
+    });
+    phaseRows.push([p.name, p.team || '', 'Total', budgetTotal, scheduledTotal, scheduledTotal - budgetTotal, budgetTotal > 0 ? (scheduledTotal - budgetTotal) / budgetTotal : 0]);
+  });
+  XLSX.utils.book_append_sheet(wb, buildTableSheet([
+    { header: 'Project', width: 28 },
+    { header: 'Team', width: 12 },
+    { header: 'Phase', width: 14 },
+    { header: 'Budget Hrs', width: 12, format: HOURS_FORMAT },
+    { header: 'Scheduled Hrs', width: 14, format: HOURS_FORMAT },
+    { header: 'Variance Hrs', width: 13, format: HOURS_FORMAT },
+    { header: 'Variance %', width: 11, format: PERCENT_FORMAT }
+  ], phaseRows), 'Phase Budget');
+
+  // --- Skills coverage (same assignment basis as the skill view) ---
+  const projectStaff: Record<string, Set<string>> = {};
+  data.rows.forEach(row => {
+    if (!projectStaff[row.projectId]) projectStaff[row.projectId] = new Set();
+    projectStaff[row.projectId].add(row.staffTypeId);
+  });
+
+  const skillRows: any[][] = [];
+  projects.forEach(p => {
+    (p.requiredSkills || []).forEach(skill => {
+      const coverage = getSkillCoverage(skill, projectStaff[p.id] || new Set<string>(), config);
+      skillRows.push([p.name, p.team || '', skill, coverage.score, coverage.score > 0 ? 'Covered' : 'Missing', coverage.contributors.join('; ')]);
+    });
+  });
+  XLSX.utils.book_append_sheet(wb, buildTableSheet([
+    { header: 'Project', width: 28 },
+    { header: 'Team', width: 12 },
+    { header: 'Required Skill', width: 28 },
+    { header: 'Points', width: 8 },
+    { header: 'Status', width: 10 },
+    { header: 'Contributing Staff', width: 48 }
+  ], skillRows), 'Skills Coverage');
+
+  // --- Team totals ---
+  const teamNames = Array.from(new Set([...TEAMS, ...members.map(m => m.team), ...projects.map(p => p.team || 'General')]));
+  const teamRows: any[][] = [];
+  teamNames.forEach(team => {
+    const teamMembers = members.filter(m => m.team === team);
+    const teamProjects = projects.filter(p => (p.team || 'General') === team);
+    if (teamMembers.length === 0 && teamProjects.length === 0) return;
+
+    const capacity = teamMembers.reduce((sum, m) => sum + m.capacityHours, 0);
+    const scheduled = teamMembers.reduce((sum, m) => sum + m.scheduledHours, 0);
+    const overtime = teamMembers.reduce((sum, m) => sum + m.overtimeHours, 0);
+    const projectIds = new Set(teamProjects.map(p => p.id));
+    const projectScheduled = data.rows.filter(r => projectIds.has(r.projectId)).reduce((sum, r) => sum + r.totalHours, 0);
+    const projectBudget = teamProjects.reduce((sum, p) => sum + p.budgetHours, 0);
+
+    teamRows.push([team, teamMembers.length, capacity, scheduled, capacity > 0 ? scheduled / capacity : 0, overtime, teamProjects.length, projectBudget, projectScheduled]);
+  });
+  XLSX.utils.book_append_sheet(wb, buildTableSheet([
+    { header: 'Team', width: 14 },
+    { header: 'Members', width: 9 },
+    { header: 'Capacity Hrs', width: 13, format: HOURS_FORMAT },
+    { header: 'Member Scheduled Hrs', width: 20, format: HOURS_FORMAT },
+    { header: 'Utilization', width: 11, format: PERCENT_FORMAT },
+    { header: 'Overtime Hrs', width: 13, format: HOURS_FORMAT },
+    { header: 'Projects', width: 9 },
+    { header: 'Project Budget Hrs', width: 18, format: HOURS_FORMAT },
+    { header: 'Project Scheduled Hrs', width: 20, format: HOURS_FORMAT }
+  ], teamRows), 'Teams');
+
+  return wb;
+};
+
+/**
+ * Why Auto-Optimize filled each placeholder the way it did: one summary row per placeholder and
+ * the full candidate scoring behind it.
+ */
+export const buildRationaleWorkbook = (rationales: AssignmentRationale[]): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+
+  const decisions = buildTableSheet(
+    [
+      { header: 'Project', width: 30 },
+      { header: 'Phase', width: 14 },
+      { header: 'Placeholder For', width: 24 },
+      { header: 'Hours', width: 10, format: HOURS_FORMAT },
+      { header: 'Assigned To', width: 22 },
+      { header: 'Candidates', width: 11 },
+      { header: 'Excluded (already on project)', width: 30 },
+      { header: 'Wrong role / level', width: 30 },
+      { header: 'Barred (independence / rotation)', width: 32 },
+      { header: 'Reason', width: 80 }
+    ],
+    rationales.map(r => [
+      r.projectName,
+      r.phase,
+      r.requirement,
+      r.hours,
+      r.candidates.find(c => c.staffTypeId === r.winnerId)?.name || '-',
+      r.candidates.length,
+      r.excluded.join(', '),
+      r.mismatched.join(', '),
+      r.conflicted.join(', '),
+      r.reason
+    ])
+  );
+  XLSX.utils.book_append_sheet(wb, decisions, 'Decisions');
+
+  const candidateRows: any[][] = [];
+  rationales.forEach(r => {
+    r.candidates.forEach((c, rank) => {
+      candidateRows.push([r.projectName, r.phase, rank + 1, c.name, c.staffTypeId === r.winnerId ? 'Yes' : '', c.team, c.skills, c.overtime, c.utilization, c.rotation, c.total, c.overtimeHours]);
+    });
+  });
+  const candidates = buildTableSheet(
+    [
+      { header: 'Project', width: 30 },
+      { header: 'Phase', width: 14 },
+      { header: 'Rank', width: 6 },
+      { header: 'Candidate', width: 22 },
+      { header: 'Assigned', width: 9 },
+      { header: 'Team', width: 9, format: SCORE_FORMAT },
+      { header: 'Skills', width: 9, format: SCORE_FORMAT },
+      { header: 'Overtime', width: 11, format: SCORE_FORMAT },
+      { header: 'Utilization', width: 11, format: SCORE_FORMAT },
+      { header: 'Rotation', width: 10, format: SCORE_FORMAT },
+      { header: 'Total', width: 10, format: SCORE_FORMAT },
+      { header: 'Overtime Hours', width: 14, format: HOURS_FORMAT }
+    ],
+    candidateRows
+  );
+  XLSX.utils.book_append_sheet(wb, candidates, 'Candidates');
+
+  return wb;
+};
+
+/**
+ * Independence report: assignments that break a member's exclusion rules, and every rule on file.
+ */
+export const buildConflictsWorkbook = (conflicts: IndependenceConflict[], projects: ProjectInput[], config: GlobalConfig): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+
+  const conflictSheet = buildTableSheet(
+    [
+      { header: 'Member', width: 22 },
+      { header: 'Project', width: 30 },
+      { header: 'Rule', width: 36 },
+      { header: 'Reason', width: 50 }
+    ],
+    conflicts.map(c => [c.staffName, c.projectName, describeExclusionScope(c.exclusion, projects), c.exclusion.reason])
+  );
+  XLSX.utils.book_append_sheet(wb, conflictSheet, 'Conflicts');
+
+  const ruleRows: any[][] = [];
+  config.staffTypes.forEach(st => {
+    (st.exclusions || []).forEach(e => {
+      ruleRows.push([st.name, describeExclusionScope(e, projects), e.reason, conflicts.filter(c => c.exclusion.id === e.id).length]);
+    });
+  });
+  const rules = buildTableSheet(
+    [
+      { header: 'Member', width: 22 },
+      { header: 'Rule', width: 36 },
+      { header: 'Reason', width: 50 },
+      { header: 'Conflicts', width: 10 }
+    ],
+    ruleRows
+  );
+  XLSX.utils.book_append_sheet(wb, rules, 'Rules');
+
+  return wb;
+};
@@ -0,0 +1,121 @@
+import { AssignmentHistoryEntry, GlobalConfig, ProjectInput, RotationRule } from '../types';
+import { DEFAULT_ROTATION_RULE } from '../constants';
+import { isPlaceholderId } from './placeholders';
+
+/**
+ * Rotation of members off auditable entities after a number of consecutive years. History is
+ * kept per entity and year; the plan being edited is `config.year`.
+ */
+
+export interface RotationStatus {
+  years: number; // Consecutive years up to and including the plan year if the member stays on
+  limit: number;
+  state: 'ok' | 'final' | 'over'; // 'final': the plan year is the last one allowed
+}
+
+export interface RotationIssue {
+  projectId: string;
+  staffTypeId: string;
+  status: RotationStatus;
+  message: string;
+}
+
+export const getRotationRule = (config: GlobalConfig): RotationRule => config.rotationRule || DEFAULT_ROTATION_RULE;
+
+export const getProjectEntity = (project: ProjectInput): string => (project.entity || project.name).trim();
+
+const sameEntity = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Where a member stands on an entity if they work on it in the plan year. Null when the history
+ * has no earlier year for them, so new assignments show nothing.
+ */
+export const getRotationStatus = (config: GlobalConfig, entity: string, staffTypeId: string): RotationStatus | null => {
+  const rule = getRotationRule(config);
+  const years = new Set(
+    (config.assignmentHistory || [])
+      .filter(h => h.staffTypeId === staffTypeId && sameEntity(h.entity, entity) && (!rule.leadsOnly || h.lead))
+      .map(h => h.year)
+  );
+
+  let prior = 0;
+  while (years.has(config.year - 1 - prior)) prior++;
+  if (prior === 0) return null;
+
+  const total = prior + 1;
+  return {
+    years: total,
+    limit: rule.maxConsecutiveYears,
+    state: total > rule.maxConsecutiveYears ? 'over' : total === rule.maxConsecutiveYears ? 'final' : 'ok'
+  };
+};
+
+const getAssignedIds = (project: ProjectInput, config: GlobalConfig): string[] => {
+  const ids = new Set<string>();
+  (project.phasesConfig || config.phases).forEach(ph => ph.staffAllocation.forEach(sa => {
+    if (!isPlaceholderId(config, sa.staffTypeId)) ids.add(sa.staffTypeId);
+  }));
+  return Array.from(ids);
+};
+
+/**
+ * Members planned on an entity beyond the rotation limit.
+ */
+export const findRotationIssues = (projects: ProjectInput[], config: GlobalConfig): RotationIssue[] => {
+  const issues: RotationIssue[] = [];
+  if (!config.assignmentHistory || config.assignmentHistory.length === 0) return issues;
+
+  projects.forEach(project => {
+    const entity = getProjectEntity(project);
+    getAssignedIds(project, config).forEach(staffTypeId => {
+      const status = getRotationStatus(config, entity, staffTypeId);
+      if (!status || status.state !== 'over') return;
+      const name = config.staffTypes.find(s => s.id === staffTypeId)?.name || staffTypeId;
+      issues.push({
+        projectId: project.id,
+        staffTypeId,
+        status,
+        message: `${name} would be on ${entity} for ${status.years} consecutive years (rotation limit ${status.limit}).`
+      });
+    });
+  });
+  return issues;
+};
+
+// Each member's share of the project budget (phase % × staff %), for members with any hours
+const getBudgetShares = (project: ProjectInput, config: GlobalConfig): [string, number][] => {
+  const shares: Record<string, number> = {};
+  (project.phasesConfig || config.phases).forEach(ph => ph.staffAllocation.forEach(sa => {
+    if (isPlaceholderId(config, sa.staffTypeId)) return;
+    shares[sa.staffTypeId] = (shares[sa.staffTypeId] || 0) + ph.percentBudget * sa.percentage;
+  }));
+  return Object.entries(shares).filter(([, share]) => share > 0);
+};
+
+/**
+ * Adds the plan's assignments to the history as the plan year, replacing anything recorded
+ * earlier for the same entities and year. The member with the largest budget share is the lead.
+ */
+export const recordPlanHistory = (projects: ProjectInput[], config: GlobalConfig): AssignmentHistoryEntry[] => {
+  const year = config.year;
+  const entities = projects.map(getProjectEntity);
+  const kept = (config.assignmentHistory || []).filter(h => h.year !== year || !entities.some(e => sameEntity(e, h.entity)));
+  const idBase = Date.now();
+
+  const recorded: AssignmentHistoryEntry[] = [];
+  projects.forEach(project => {
+    const entity = getProjectEntity(project);
+    const shares = getBudgetShares(project, config);
+    // Ties go to the first allocated member
+    const leadId = shares.reduce<[string, number] | null>((best, s) => !best || s[1] > best[1] ? s : best, null)?.[0];
+    shares.forEach(([staffTypeId]) => {
+      const existing = recorded.find(h => h.staffTypeId === staffTypeId && sameEntity(h.entity, entity));
+      if (existing) {
+        existing.lead = existing.lead || staffTypeId === leadId;
+        return;
+      }
+      recorded.push({ id: `hist-${idBase}-${recorded.length}`, entity, staffTypeId, year, lead: staffTypeId === leadId });
+    });
+  });
+  return [...kept, ...recorded];
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { DEFAULT_CONFIG, INITIAL_PROJECTS } from '../constants';
+import { GlobalConfig, PhaseName, ProjectInput } from '../types';
+import { getPlanningWeeks, getProjectDuration, getWeekIndex, makeOverridesRelative, optimizeSchedule, OptimizationResult } from './scheduleEngine';
+
+// Overlapping projects so the optimizer keeps finding better start weeks well past the stop point
+const projects: ProjectInput[] = [
+  ...INITIAL_PROJECTS,
+  ...INITIAL_PROJECTS.map((p, i) => ({ ...p, id: `copy-${i}`, name: `${p.name} (2)`, startDate: '2026-01-05' }))
+];
+
+const SEED = 42;
+
+describe('optimizeSchedule replay', () => {
+  it('repeats the plan of a run stopped by the user', () => {
+    // The worker hands over the best plan of the last progress report when the user stops
+    let stopped: OptimizationResult | null = null;
+    optimizeSchedule(projects, DEFAULT_CONFIG, {
+      seed: SEED,
+      iterations: 3000,
+      onProgress: (progress, best) => {
+        if (progress.iteration === 1000) stopped = structuredClone(best);
+      }
+    });
+    expect(stopped).not.toBeNull();
+    const run = stopped!;
+    expect(run.iterations).toBe(3000);
+    expect(run.iterationsRun).toBe(1000);
+    expect(run.optimizedProjects.map(p => p.startDate)).not.toEqual(projects.map(p => p.startDate));
+
+    const replay = optimizeSchedule(projects, DEFAULT_CONFIG, { seed: run.seed, iterations: run.iterations, stopAt: run.iterationsRun });
+    expect(replay.optimizedProjects).toEqual(run.optimizedProjects);
+    expect(replay.cost).toBe(run.cost);
+    expect(replay.iterationsRun).toBe(1000);
+  });
+
+  it('repeats the plan of a run that ran out of time', () => {
+    const run = optimizeSchedule(projects, DEFAULT_CONFIG, { seed: SEED, iterations: 3000, timeBudgetMs: 1 });
+    expect(run.iterationsRun).toBeLessThan(3000);
+
+    const replay = optimizeSchedule(projects, DEFAULT_CONFIG, { seed: run.seed, iterations: run.iterations, stopAt: run.iterationsRun });
+    expect(replay.optimizedProjects).toEqual(run.optimizedProjects);
+    expect(replay.cost).toBe(run.cost);
+  });
+});
+
+describe('optimizeSchedule horizon', () => {
+  // Starts too late to finish inside the 2026 horizon, and may not start any earlier
+  const late: ProjectInput = { ...INITIAL_PROJECTS[0], startDate: '2026-12-07', earliestStart: '2026-12-07' };
+
+  it('scores the plan it returns, with late projects pulled back into the horizon', () => {
+    const run = optimizeSchedule([late], DEFAULT_CONFIG, { seed: SEED, iterations: 500 });
+    const weeks = getPlanningWeeks(DEFAULT_CONFIG);
+    const [project] = run.optimizedProjects;
+    expect(getWeekIndex(project.startDate, weeks) + getProjectDuration(project, DEFAULT_CONFIG)).toBeLessThanOrEqual(weeks.headers.length);
+
+    const rescored = optimizeSchedule(run.optimizedProjects, DEFAULT_CONFIG, { seed: SEED, iterations: 0 });
+    expect(rescored.cost).toBe(run.cost);
+  });
+
+  it('warns when pulling a project back breaks its earliest start', () => {
+    const run = optimizeSchedule([late], DEFAULT_CONFIG, { seed: SEED, iterations: 0 });
+    const [project] = run.optimizedProjects;
+    expect(run.warnings).toContain(
+      `${late.name} was moved to start ${project.startDate} so it ends inside the planning horizon, before its earliest start of 2026-12-07.`
+    );
+  });
+});
+
+describe('makeOverridesRelative', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Fieldwork skips the week of 16 February (week 6 of the project), so it runs in weeks 7-14
+  const config: GlobalConfig = {
+    ...DEFAULT_CONFIG,
+    horizon: { mode: 'rolling', months: 6 },
+    holidayCalendars: [{ id: 'org', name: 'Holidays', scopeType: 'organization', holidays: [{ date: '2026-02-17', name: 'Holiday' }], blockFieldwork: true }]
+  };
+  const week = (n: number) => new Date(2026, 0, 5 + 7 * n).toISOString();
+  const project: ProjectInput = {
+    ...INITIAL_PROJECTS[0],
+    startDate: '2026-01-05',
+    overrides: {
+      phase: { [week(0)]: PhaseName.PLANNING },
+      staff: { 'lead-1': { [week(8)]: 30, [week(-1)]: 5, [week(6)]: 6 } },
+      relativeStaff: { 'lead-1': { [`${PhaseName.REPORTING}:0`]: 4 } }
+    }
+  };
+
+  it('moves dated edits inside the phases onto the project', () => {
+    const { overrides } = makeOverridesRelative(project, config);
+    expect(overrides!.relativePhase).toEqual({ [`${PhaseName.PRE_PLANNING}:0`]: PhaseName.PLANNING });
+    expect(overrides!.relativeStaff).toEqual({ 'lead-1': { [`${PhaseName.FIELDWORK}:1`]: 30, [`${PhaseName.REPORTING}:0`]: 4 } });
+    // Before the start and in the blocked week there is no phase week to move to
+    expect(overrides!.phase).toEqual({});
+    expect(overrides!.staff).toEqual({ 'lead-1': { [week(-1)]: 5, [week(6)]: 6 } });
+  });
+
+  it('does not depend on the day it runs', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 0, 5));
+    const first = makeOverridesRelative(project, config);
+    // The rolling horizon has moved past the project
+    vi.setSystemTime(new Date(2027, 5, 7));
+    expect(makeOverridesRelative(project, config)).toEqual(first);
+  });
+
+  it('leaves projects without movable edits unchanged', () => {
+    const outside = { ...project, overrides: { staff: { 'lead-1': { [week(-1)]: 5 } } } };
+    expect(makeOverridesRelative(outside, config)).toBe(outside);
+  });
+});
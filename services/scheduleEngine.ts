@@ -6,114 +6,732 @@ import {
   ScheduleRow, 
   PhaseName, 
   ScheduleCell,
-  ProjectOverrides
+  ProjectOverrides,
+  PhaseConfig,
+  ScoringProfile,
+  OverrideAnchor,
+  StaffType
 } from '../types';
-import { startOfYear, addWeeks, startOfWeek } from 'date-fns';
+import { startOfYear, addWeeks, addMonths, addDays, startOfWeek, differenceInCalendarWeeks, format, parseISO } from 'date-fns';
+import { DEFAULT_HORIZON, DEFAULT_HOURS_GRANULARITY, DEFAULT_SCORING_PROFILE, DEFAULT_OVERRIDE_ANCHOR } from '../constants';
+import { getCapacityProfile, getFieldworkBlockedWeeks } from './availability';
+import { ProjectSpan, findDependencyViolations, getEarliestStart } from './dependencies';
+import { ProjectTimeline, ConstraintViolation, findConstraintViolations, getConstraintWeeksOff } from './projectConstraints';
+import { ProjectPeriod, IndependenceConflict, findExclusion, findIndependenceConflicts, hasExclusions } from './independence';
+import { getRotationRule, getRotationStatus, getProjectEntity, findRotationIssues } from './rotation';
+import { isPlaceholder, isPlaceholderId, canFillPlaceholder, describePlaceholder } from './placeholders';
+import { createRandom, randomSeed } from './random';
 
 /**
- * Helper to get weekly allocations for all projects/staff without generating full UI structure.
- * Used by optimization algorithm to evaluate schedule "cost".
+ * First Monday that falls inside the planning year.
  */
-const calculateWeeklyAggregates = (projects: ProjectInput[], config: GlobalConfig) => {
-    const staffLoads: Record<string, number[]> = {};
-    config.staffTypes.forEach(st => {
-        staffLoads[st.id] = new Array(53).fill(0);
+export const getFirstMondayOfYear = (year: number): Date => {
+    const startDate = startOfWeek(startOfYear(new Date(year, 0, 1)), { weekStartsOn: 1 });
+    if (startDate.getFullYear() < year) {
+        return addWeeks(startDate, 1);
+    }
+    return startDate;
+};
+
+export interface PlanningWeeks {
+    start: Date;       // Monday of the first column
+    headers: string[]; // ISO date of each Monday in the horizon
+}
+
+/**
+ * Weeks covered by the configured planning horizon. Schedule columns, aggregates and the
+ * optimizer all index weeks from `start` (see getWeekIndex).
+ */
+export const getPlanningWeeks = (config: GlobalConfig, today: Date = new Date()): PlanningWeeks => {
+    const horizon = config.horizon || DEFAULT_HORIZON;
+    let first = getFirstMondayOfYear(config.year);
+    let end = new Date(config.year + 1, 0, 1);
+    if (horizon.mode === 'months') {
+        end = addMonths(new Date(config.year, 0, 1), horizon.months);
+    } else if (horizon.mode === 'rolling') {
+        first = startOfWeek(today, { weekStartsOn: 1 });
+        end = addMonths(first, horizon.months);
+    }
+
+    const headers: string[] = [];
+    for (let d = first; d < end; d = addWeeks(d, 1)) {
+        headers.push(d.toISOString());
+    }
+
+    return { start: first, headers };
+};
+
+/** Calendar date as stored on projects ("yyyy-MM-dd"). */
+export const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Column of the week containing `date`. Negative or >= headers.length when outside the horizon.
+ */
+export const getWeekIndex = (date: string, weeks: PlanningWeeks): number => {
+    return differenceInCalendarWeeks(parseISO(date), weeks.start, { weekStartsOn: 1 });
+};
+
+/**
+ * Scheduled length of a phase: its chosen `weeks`, kept within minWeeks..maxWeeks.
+ */
+export const getPhaseDuration = (phase: PhaseConfig): number => {
+    const min = Math.max(0, Math.min(phase.minWeeks, phase.maxWeeks));
+    const chosen = Number.isFinite(phase.weeks) ? phase.weeks! : phase.maxWeeks;
+    return Math.max(min, Math.min(phase.maxWeeks, Math.round(chosen)));
+};
+
+export const getProjectDuration = (project: ProjectInput, config: GlobalConfig): number => {
+    const phases = project.phasesConfig || config.phases;
+    return phases.reduce((sum, phase) => sum + Math.max(0, getPhaseDuration(phase)), 0);
+};
+
+/**
+ * Friday of the project's last scheduled week.
+ */
+export const getPlannedEndDate = (project: ProjectInput, config: GlobalConfig): Date => {
+    const startMonday = startOfWeek(parseISO(project.startDate), { weekStartsOn: 1 });
+    const duration = Math.max(1, getProjectDuration(project, config));
+    return addDays(addWeeks(startMonday, duration - 1), 4);
+};
+
+export const getHoursGranularity = (config: GlobalConfig): number => {
+    const granularity = config.hoursGranularity;
+    return Number.isFinite(granularity) && granularity! > 0 ? granularity! : DEFAULT_HOURS_GRANULARITY;
+};
+
+export const getScoringProfile = (config: GlobalConfig): ScoringProfile => config.scoringProfile || DEFAULT_SCORING_PROFILE;
+
+/**
+ * Budgeted hours of one staff allocation in one phase (budget × phase % × staff %).
+ */
+export const getAllocationHours = (project: ProjectInput, phase: PhaseConfig, percentage: number): number => {
+    return (project.budgetHours * phase.percentBudget / 100) * percentage / 100;
+};
+
+/**
+ * Splits `total` hours over `weekCount` weeks in multiples of `granularity` so that the weeks add up
+ * to exactly `total`. Whole steps are spread evenly with the earlier weeks taking one extra step;
+ * a remainder smaller than one step goes into the last week.
+ */
+export const distributeHours = (total: number, weekCount: number, granularity: number = DEFAULT_HOURS_GRANULARITY): number[] => {
+    if (weekCount <= 0) return [];
+    // Work in hundredths of an hour to keep float noise out of the totals
+    const totalUnits = Math.max(0, Math.round(total * 100));
+    const stepUnits = Math.max(1, Math.round(granularity * 100));
+    const steps = Math.floor(totalUnits / stepUnits);
+    const remainder = totalUnits - steps * stepUnits;
+    const base = Math.floor(steps / weekCount);
+    const extra = steps % weekCount;
+
+    const result = new Array(weekCount).fill(0).map((_, i) => (base + (i < extra ? 1 : 0)) * stepUnits);
+    result[weekCount - 1] += remainder;
+    return result.map(units => units / 100);
+};
+
+// Fieldwork-blocked columns per project team, computed once per horizon
+type BlockedWeeksLookup = (team: string) => Set<number>;
+
+const createBlockedWeeksLookup = (config: GlobalConfig, weeks: PlanningWeeks): BlockedWeeksLookup => {
+    const cache: Record<string, Set<number>> = {};
+    return (team: string) => {
+        if (!cache[team]) cache[team] = getFieldworkBlockedWeeks(weeks.headers, team, config.holidayCalendars);
+        return cache[team];
+    };
+};
+
+/**
+ * Week columns of each phase, in phase order. Fieldwork skips weeks blocked by holiday
+ * calendars and continues after them, so the phase keeps its full length.
+ */
+const layoutPhaseWeeks = (project: ProjectInput, config: GlobalConfig, weeks: PlanningWeeks, blocked: BlockedWeeksLookup): number[][] => {
+    const phases = project.phasesConfig || config.phases;
+    const blockedWeeks = blocked(project.team || 'General');
+    let cursor = getWeekIndex(project.startDate, weeks);
+
+    return phases.map(phase => {
+        const indices: number[] = [];
+        const duration = Math.max(0, getPhaseDuration(phase));
+        while (indices.length < duration) {
+            if (phase.name === PhaseName.FIELDWORK && blockedWeeks.has(cursor)) {
+                cursor++;
+                continue;
+            }
+            indices.push(cursor++);
+        }
+        return indices;
     });
+};
 
-    projects.forEach(project => {
-        let currentWeekIndex = project.startWeekOffset;
-        const phases = project.phasesConfig || config.phases;
+const getProjectSpan = (project: ProjectInput, config: GlobalConfig, weeks: PlanningWeeks, blocked: BlockedWeeksLookup): ProjectSpan => {
+    const start = getWeekIndex(project.startDate, weeks);
+    const last = layoutPhaseWeeks(project, config, weeks, blocked).reduce((max, indices) => Math.max(max, ...indices), start - 1);
+    return { start, end: last + 1 };
+};
 
-        phases.forEach(phaseConfig => {
-            const phaseTotalHours = (project.budgetHours * phaseConfig.percentBudget) / 100;
-            let duration = phaseConfig.maxWeeks;
-            
-            if (duration <= 0) return;
+const getSpans = (projects: ProjectInput[], config: GlobalConfig, weeks: PlanningWeeks, blocked: BlockedWeeksLookup) => {
+    const spans: Record<string, ProjectSpan> = {};
+    projects.forEach(p => { spans[p.id] = getProjectSpan(p, config, weeks, blocked); });
+    return spans;
+};
+
+/**
+ * Week span of every project on the current planning horizon, for dependency checks.
+ */
+export const getProjectSpans = (projects: ProjectInput[], config: GlobalConfig): Record<string, ProjectSpan> => {
+    const weeks = getPlanningWeeks(config);
+    return getSpans(projects, config, weeks, createBlockedWeeksLookup(config, weeks));
+};
+
+const getTimelines = (projects: ProjectInput[], config: GlobalConfig, weeks: PlanningWeeks, blocked: BlockedWeeksLookup) => {
+    const timelines: Record<string, ProjectTimeline> = {};
+    projects.forEach(p => {
+        const phases = p.phasesConfig || config.phases;
+        const layout = layoutPhaseWeeks(p, config, weeks, blocked);
+        const start = getWeekIndex(p.startDate, weeks);
+        timelines[p.id] = {
+            start,
+            end: layout.reduce((max, indices) => Math.max(max, ...indices), start - 1) + 1,
+            phases: layout.map((indices, pIdx) => ({
+                name: phases[pIdx].name,
+                start: indices.length > 0 ? indices[0] : start,
+                end: indices.length > 0 ? indices[indices.length - 1] + 1 : start
+            }))
+        };
+    });
+    return timelines;
+};
+
+const findProjectConstraintViolations = (projects: ProjectInput[], config: GlobalConfig, weeks: PlanningWeeks, blocked: BlockedWeeksLookup) =>
+    findConstraintViolations(projects, getTimelines(projects, config, weeks, blocked), date => getWeekIndex(date, weeks));
+
+/**
+ * Earliest start, latest finish and milestone dates the current plan misses.
+ */
+export const getConstraintViolations = (projects: ProjectInput[], config: GlobalConfig): ConstraintViolation[] => {
+    const weeks = getPlanningWeeks(config);
+    return findProjectConstraintViolations(projects, config, weeks, createBlockedWeeksLookup(config, weeks));
+};
+
+// Monday of the first week to Friday of the last
+const getPeriod = (span: ProjectSpan, weeks: PlanningWeeks): ProjectPeriod => ({
+    start: toDateKey(addWeeks(weeks.start, span.start)),
+    end: toDateKey(addDays(addWeeks(weeks.start, Math.max(span.start, span.end - 1)), 4))
+});
+
+const findConflicts = (projects: ProjectInput[], config: GlobalConfig, weeks: PlanningWeeks, blocked: BlockedWeeksLookup) =>
+    findIndependenceConflicts(projects, config, p => getPeriod(getProjectSpan(p, config, weeks, blocked), weeks));
+
+/**
+ * Planned period of a project, as used by independence rules with dates.
+ */
+export const getProjectPeriod = (project: ProjectInput, config: GlobalConfig): ProjectPeriod => {
+    const weeks = getPlanningWeeks(config);
+    return getPeriod(getProjectSpan(project, config, weeks, createBlockedWeeksLookup(config, weeks)), weeks);
+};
+
+/**
+ * Members currently assigned to projects their independence rules forbid.
+ */
+export const getIndependenceConflicts = (projects: ProjectInput[], config: GlobalConfig): IndependenceConflict[] => {
+    const weeks = getPlanningWeeks(config);
+    return findConflicts(projects, config, weeks, createBlockedWeeksLookup(config, weeks));
+};
+
+const hasDateConstraints = (p: ProjectInput) => !!(p.earliestStart || p.latestFinish || (p.milestones && p.milestones.length > 0));
+
+// Relative override keys: "PhaseName:week", the week counted from 0 in the phase's planned weeks
+interface RelativeWeeks {
+    toKey: (weekIdx: number) => string | null; // Null for weeks outside the project's phases
+    toWeek: (key: string) => number | null; // Null when the phase no longer has that many weeks
+}
 
-            phaseConfig.staffAllocation.forEach(sa => {
-                const staffHoursTotal = (phaseTotalHours * sa.percentage) / 100;
+const createRelativeWeeks = (layout: number[][], phases: PhaseConfig[]): RelativeWeeks => ({
+    toKey: (weekIdx) => {
+        for (let pIdx = 0; pIdx < layout.length; pIdx++) {
+            const week = layout[pIdx].indexOf(weekIdx);
+            if (week !== -1) return `${phases[pIdx].name}:${week}`;
+        }
+        return null;
+    },
+    toWeek: (key) => {
+        const splitAt = key.lastIndexOf(':');
+        const pIdx = phases.findIndex(ph => ph.name === key.slice(0, splitAt));
+        const weekIdx = layout[pIdx]?.[Number(key.slice(splitAt + 1))];
+        return weekIdx === undefined ? null : weekIdx;
+    }
+});
+
+/**
+ * Readable form of a relative override key, e.g. "Fieldwork week 3".
+ */
+export const describeRelativeWeek = (key: string): string => {
+    const splitAt = key.lastIndexOf(':');
+    return `${key.slice(0, splitAt)} week ${Number(key.slice(splitAt + 1)) + 1}`;
+};
+
+// One staff row of a project as the table shows it, with hours per horizon week after overrides
+interface StaffRowLoad {
+    staffTypeId: string;
+    staffIndex: number;
+    hours: number[];
+    anchors: (OverrideAnchor | null)[]; // How each week's manual hours are stored; null when calculated
+    keep: boolean; // Shown even without hours: an explicit allocation or a split an override refers to
+}
+
+interface ProjectLoad {
+    weeklyPhases: Map<number, PhaseName>; // Effective phase of each week, after phase overrides
+    phaseAnchors: Map<number, OverrideAnchor>; // Weeks whose phase was changed by hand
+    phaseWeeks: Record<string, number[]>; // Weeks of each effective phase, in order
+    rows: StaffRowLoad[];
+}
+
+/**
+ * Effective plan of one project: phases after phase overrides and every staff row's hours after
+ * hour overrides. The schedule table and the optimizer both read it, so they see the same load.
+ */
+const computeProjectLoad = (project: ProjectInput, config: GlobalConfig, weeks: PlanningWeeks, blocked: BlockedWeeksLookup): ProjectLoad => {
+    const { headers } = weeks;
+    const phases = project.phasesConfig || config.phases;
+    const granularity = getHoursGranularity(config);
+    const layout = layoutPhaseWeeks(project, config, weeks, blocked);
+    const relative = createRelativeWeeks(layout, phases);
+
+    // Horizon week of a manual edit: relative edits follow the current layout, dated ones keep their week
+    const resolveWeek = (key: string, anchor: OverrideAnchor) => {
+        const weekIdx = anchor === 'project' ? relative.toWeek(key) : headers.indexOf(key);
+        return weekIdx !== null && weekIdx >= 0 && weekIdx < headers.length ? weekIdx : -1;
+    };
+
+    // --- Pre-calculate Budgeted Hours per Phase ---
+    // How many hours in total does a staff type get in a specific phase?
+    const phaseBudgets: Record<string, Record<string, number>> = {};
+    const allocatedStaffIds = new Set<string>();
+
+    phases.forEach(p => {
+        phaseBudgets[p.name] = {};
+        p.staffAllocation.forEach(sa => {
+            phaseBudgets[p.name][sa.staffTypeId] = (phaseBudgets[p.name][sa.staffTypeId] || 0) + getAllocationHours(project, p, sa.percentage);
+            // Track explicit allocations (even if 0%)
+            allocatedStaffIds.add(sa.staffTypeId);
+        });
+    });
+
+    // --- Determine Effective Phase for each Week ---
+    // Start with natural timeline, keyed by week index. Weeks before or after the horizon are kept
+    // so a clipped phase still spreads its budget over its full length; they are just not shown.
+    const weeklyPhases = new Map<number, PhaseName>();
+    layout.forEach((indices, pIdx) => {
+        indices.forEach(weekIdx => weeklyPhases.set(weekIdx, phases[pIdx].name));
+    });
+
+    // Apply Phase Overrides; a dated edit wins over a relative one in the same week
+    const phaseAnchors = new Map<number, OverrideAnchor>();
+    const applyPhaseOverrides = (byWeek: Record<string, PhaseName> | undefined, anchor: OverrideAnchor) => {
+        Object.entries(byWeek || {}).forEach(([key, phase]) => {
+            const weekIdx = resolveWeek(key, anchor);
+            if (weekIdx !== -1) {
+                weeklyPhases.set(weekIdx, phase);
+                phaseAnchors.set(weekIdx, anchor);
+            }
+        });
+    };
+    applyPhaseOverrides(project.overrides?.relativePhase, 'project');
+    applyPhaseOverrides(project.overrides?.phase, 'date');
+
+    // Weeks of each effective phase in order; the phase budget is spread over exactly these weeks
+    const phaseWeeks: Record<string, number[]> = {};
+    Array.from(weeklyPhases.keys()).sort((a, b) => a - b).forEach(weekIdx => {
+        const phaseName = weeklyPhases.get(weekIdx)!;
+        if (!phaseWeeks[phaseName]) phaseWeeks[phaseName] = [];
+        phaseWeeks[phaseName].push(weekIdx);
+    });
+
+    // Manual hours per staff row, by horizon week
+    const staffOverrides: Record<string, Map<number, { hours: number; anchor: OverrideAnchor }>> = {};
+    const applyStaffOverrides = (byRow: Record<string, Record<string, number>> | undefined, anchor: OverrideAnchor) => {
+        Object.entries(byRow || {}).forEach(([staffKey, byWeek]) => {
+            const row = staffOverrides[staffKey] || (staffOverrides[staffKey] = new Map());
+            Object.entries(byWeek).forEach(([key, hours]) => {
+                const weekIdx = resolveWeek(key, anchor);
+                if (weekIdx !== -1) row.set(weekIdx, { hours, anchor });
+            });
+        });
+    };
+    applyStaffOverrides(project.overrides?.relativeStaff, 'project');
+    applyStaffOverrides(project.overrides?.staff, 'date');
+
+    const rows: StaffRowLoad[] = [];
+
+    config.staffTypes.forEach(staff => {
+        // We need to determine how many splits (indices) are needed.
+        // This is max(calculated_max_load, max_override_index).
+        
+        let maxOverrideIndex = 0;
+
+        // Check overrides to see if we have manual data for high indices
+        Object.keys(staffOverrides).forEach(key => {
+            // Split at the last dash: generated staff ids can contain dashes themselves
+            const splitAt = key.lastIndexOf('-');
+            if (key.slice(0, splitAt) === staff.id) {
+                const idx = parseInt(key.slice(splitAt + 1));
+                if (idx > maxOverrideIndex) maxOverrideIndex = idx;
+            }
+        });
+
+        // Calculate load based on effective phases
+        const hasCalculatedLoad = Object.keys(phaseWeeks).some(phaseName => (phaseBudgets[phaseName]?.[staff.id] || 0) > 0);
+
+        // We disable automatic splitting based on capacity overflow.
+        // Users can manually add splits via overrides if they want a second row for the same person/role.
+        const calculatedSplits = 1;
+        const isExplicitlyAllocated = allocatedStaffIds.has(staff.id);
+
+        // Ensure at least 1 row if we have calculated load > 0, OR explicit allocation, OR overrides exist
+        let numSplits = Math.max(calculatedSplits, maxOverrideIndex);
+        if (!hasCalculatedLoad && maxOverrideIndex === 0 && !isExplicitlyAllocated) numSplits = 0;
+
+        for (let i = 0; i < numSplits; i++) {
+            const staffIndex = i + 1;
+            const manual = staffOverrides[`${staff.id}-${staffIndex}`];
+
+            // Each split gets an equal share of every phase budget, distributed over that phase's weeks
+            const calculatedHours: Record<number, number> = {};
+            Object.entries(phaseWeeks).forEach(([phaseName, indices]) => {
+                const staffHoursTotal = phaseBudgets[phaseName]?.[staff.id] || 0;
                 if (staffHoursTotal <= 0) return;
-                
-                const rawWeekly = staffHoursTotal / duration;
-                let baseWeekly = Math.round(rawWeekly / 4) * 4;
-                if (baseWeekly === 0 && rawWeekly > 0) baseWeekly = 4;
-
-                for (let w = 0; w < duration; w++) {
-                    const weekIdx = currentWeekIndex + w;
-                    if (weekIdx < 53 && weekIdx >= 0) {
-                        if (!staffLoads[sa.staffTypeId]) staffLoads[sa.staffTypeId] = new Array(53).fill(0);
-                         staffLoads[sa.staffTypeId][weekIdx] += baseWeekly;
-                    }
+                distributeHours(staffHoursTotal / numSplits, indices.length, granularity).forEach((hours, k) => {
+                    calculatedHours[indices[k]] = hours;
+                });
+            });
+
+            const hours = new Array(headers.length).fill(0);
+            const anchors: (OverrideAnchor | null)[] = new Array(headers.length).fill(null);
+            headers.forEach((_, dateIdx) => {
+                const override = manual?.get(dateIdx);
+                // 1. Check specific hour override
+                if (override) {
+                    hours[dateIdx] = override.hours;
+                    anchors[dateIdx] = override.anchor;
                 }
+                // 2. Fallback to calculated if phase exists
+                else if (weeklyPhases.has(dateIdx)) {
+                    hours[dateIdx] = calculatedHours[dateIdx] || 0;
+                }
+            });
+
+            rows.push({
+                staffTypeId: staff.id,
+                staffIndex,
+                hours,
+                anchors,
+                keep: staffIndex <= maxOverrideIndex || (isExplicitlyAllocated && staffIndex === 1)
             });
-            currentWeekIndex += duration;
+        }
+    });
+
+    return { weeklyPhases, phaseAnchors, phaseWeeks, rows };
+};
+
+/**
+ * Weekly hours of every member across all projects, overrides included, exactly as the table sums them.
+ * Used by optimization algorithm to evaluate schedule "cost".
+ */
+const calculateWeeklyAggregates = (projects: ProjectInput[], config: GlobalConfig, weeks: PlanningWeeks, blocked: BlockedWeeksLookup) => {
+    const weekCount = weeks.headers.length;
+    const staffLoads: Record<string, number[]> = {};
+    config.staffTypes.forEach(st => {
+        staffLoads[st.id] = new Array(weekCount).fill(0);
+    });
+
+    projects.forEach(project => {
+        computeProjectLoad(project, config, weeks, blocked).rows.forEach(row => {
+            const loads = staffLoads[row.staffTypeId];
+            row.hours.forEach((hours, weekIdx) => { loads[weekIdx] += hours; });
         });
     });
     return staffLoads;
 };
 
+export const getDefaultOverrideAnchor = (config: GlobalConfig): OverrideAnchor => config.overrideAnchor || DEFAULT_OVERRIDE_ANCHOR;
+
+// One manual cell: the phase of a week, or a staff row's hours in it
+export interface OverrideTarget {
+    date: string; // Week header
+    staffKey?: string; // "staffTypeId-staffIndex"; unset for a phase override
+}
+
+const omitKey = <T>(record: Record<string, T> | undefined, key: string | null): Record<string, T> | undefined => {
+    if (!record || key === null || !(key in record)) return record;
+    const copy = { ...record };
+    delete copy[key];
+    return copy;
+};
+
+// Where the manual value of a cell is stored, if anywhere
+const locateOverride = (project: ProjectInput, config: GlobalConfig, target: OverrideTarget) => {
+    const weeks = getPlanningWeeks(config);
+    const layout = layoutPhaseWeeks(project, config, weeks, createBlockedWeeksLookup(config, weeks));
+    const key = createRelativeWeeks(layout, project.phasesConfig || config.phases).toKey(weeks.headers.indexOf(target.date));
+    const o = project.overrides || {};
+    const { date, staffKey } = target;
+    const dated = staffKey ? o.staff?.[staffKey]?.[date] : o.phase?.[date];
+    const relative = key === null ? undefined : staffKey ? o.relativeStaff?.[staffKey]?.[key] : o.relativePhase?.[key];
+    const anchor: OverrideAnchor | null = dated !== undefined ? 'date' : relative !== undefined ? 'project' : null;
+    return { key, value: dated ?? relative, anchor };
+};
+
+/**
+ * Stores a manual phase or hours value. An edited cell keeps its anchor unless `anchor` is given,
+ * new ones use the configured default. Weeks outside the project's phases can only stay on their date,
+ * so asking to move one with the project returns null.
+ */
+export const writeOverride = (project: ProjectInput, config: GlobalConfig, target: OverrideTarget, value: PhaseName | number, anchor?: OverrideAnchor): ProjectInput | null => {
+    const located = locateOverride(project, config, target);
+    const { key } = located;
+    let wanted = anchor || located.anchor || getDefaultOverrideAnchor(config);
+    if (wanted === 'project' && key === null) {
+        if (anchor) return null;
+        wanted = 'date';
+    }
+
+    const { date, staffKey } = target;
+    const current = project.overrides || {};
+    const overrides: ProjectOverrides = { ...current };
+    if (staffKey) {
+        // A cell holds one manual value, so drop the other anchor's copy of it
+        overrides.staff = { ...(current.staff || {}), [staffKey]: omitKey(current.staff?.[staffKey], date) || {} };
+        overrides.relativeStaff = { ...(current.relativeStaff || {}), [staffKey]: omitKey(current.relativeStaff?.[staffKey], key) || {} };
+        const byWeek = wanted === 'project' ? overrides.relativeStaff : overrides.staff;
+        byWeek[staffKey] = { ...byWeek[staffKey], [wanted === 'project' ? key! : date]: Number(value) };
+    } else {
+        overrides.phase = { ...(omitKey(current.phase, date) || {}) };
+        overrides.relativePhase = { ...(omitKey(current.relativePhase, key) || {}) };
+        if (wanted === 'project') overrides.relativePhase[key!] = value as PhaseName;
+        else overrides.phase[date] = value as PhaseName;
+    }
+    return { ...project, overrides };
+};
+
+/**
+ * Switches an existing manual cell between staying on its date and moving with the project.
+ * Returns null when there is no manual value or the week is outside the project's phases.
+ */
+export const setOverrideAnchor = (project: ProjectInput, config: GlobalConfig, target: OverrideTarget, anchor: OverrideAnchor): ProjectInput | null => {
+    const { value } = locateOverride(project, config, target);
+    if (value === undefined) return null;
+    return writeOverride(project, config, target, value, anchor);
+};
+
+// Phase layout on weeks counted from the project's own start, long enough for fieldwork to skip
+// every blocked week it meets, so it does not depend on where today's horizon begins or ends
+const layoutFromProjectStart = (project: ProjectInput, config: GlobalConfig): { weeks: PlanningWeeks; layout: number[][] } => {
+    const start = startOfWeek(parseISO(project.startDate), { weekStartsOn: 1 });
+    for (let length = Math.max(1, getProjectDuration(project, config)); ; length *= 2) {
+        const weeks: PlanningWeeks = { start, headers: Array.from({ length }, (_, i) => addWeeks(start, i).toISOString()) };
+        const layout = layoutPhaseWeeks(project, config, weeks, createBlockedWeeksLookup(config, weeks));
+        if (layout.every(indices => indices.every(weekIdx => weekIdx < length))) return { weeks, layout };
+    }
+};
+
+/**
+ * Moves a project's manual edits from their dates onto the project, so they travel with it when it
+ * moves. Edits in weeks outside the project's phases have no place on the project and stay on their
+ * date. Returns the project unchanged when there is nothing to move.
+ */
+export const makeOverridesRelative = (project: ProjectInput, config: GlobalConfig): ProjectInput => {
+    const current = project.overrides || {};
+    if (!current.phase && !current.staff) return project;
+    const { weeks, layout } = layoutFromProjectStart(project, config);
+    const relative = createRelativeWeeks(layout, project.phasesConfig || config.phases);
+    let moved = 0;
+
+    // Splits one date -> value map into the entries that stay dated and those that move onto the project
+    const split = <T>(byDate: Record<string, T>, into: Record<string, T>) => {
+        const dated: Record<string, T> = {};
+        Object.entries(byDate).forEach(([date, value]) => {
+            const key = relative.toKey(getWeekIndex(date, weeks));
+            if (key === null) {
+                dated[date] = value;
+            } else {
+                into[key] = value;
+                moved++;
+            }
+        });
+        return dated;
+    };
+
+    const relativePhase = { ...(current.relativePhase || {}) };
+    const phase = split(current.phase || {}, relativePhase);
+    const relativeStaff = { ...(current.relativeStaff || {}) };
+    const staff: Record<string, Record<string, number>> = {};
+    Object.entries(current.staff || {}).forEach(([staffKey, byDate]) => {
+        const byWeek = { ...(relativeStaff[staffKey] || {}) };
+        const dated = split(byDate, byWeek);
+        if (Object.keys(byWeek).length > 0) relativeStaff[staffKey] = byWeek;
+        if (Object.keys(dated).length > 0) staff[staffKey] = dated;
+    });
+
+    if (moved === 0) return project;
+    return { ...project, overrides: { ...current, phase, staff, relativePhase, relativeStaff } };
+};
+
+/**
+ * Manual edits of the given staff rows removed from both the dated and the relative overrides.
+ */
+export const removeStaffOverrides = (overrides: ProjectOverrides | undefined, matches: (staffKey: string) => boolean): ProjectOverrides => {
+    const keep = (byRow?: Record<string, Record<string, number>>) => {
+        if (!byRow) return byRow;
+        const kept: Record<string, Record<string, number>> = {};
+        Object.entries(byRow).forEach(([staffKey, byWeek]) => { if (!matches(staffKey)) kept[staffKey] = byWeek; });
+        return kept;
+    };
+    return { ...(overrides || {}), staff: keep(overrides?.staff), relativeStaff: keep(overrides?.relativeStaff) };
+};
+
+/**
+ * Projects with the given members taken off every phase and their manual hours removed,
+ * so no project keeps assignments to members that no longer exist.
+ */
+export const removeStaffFromProjects = (projects: ProjectInput[], staffTypeIds: Set<string>): ProjectInput[] => {
+    if (staffTypeIds.size === 0) return projects;
+    return projects.map(p => {
+        const assigned = p.phasesConfig?.some(ph => ph.staffAllocation.some(sa => staffTypeIds.has(sa.staffTypeId)));
+        const overrides = p.overrides && removeStaffOverrides(p.overrides, key => staffTypeIds.has(key.slice(0, key.lastIndexOf('-'))));
+        return {
+            ...p,
+            phasesConfig: assigned
+                ? p.phasesConfig!.map(ph => ({ ...ph, staffAllocation: ph.staffAllocation.filter(sa => !staffTypeIds.has(sa.staffTypeId)) }))
+                : p.phasesConfig,
+            overrides
+        };
+    });
+};
+
+export interface CandidateScore {
+    staffTypeId: string;
+    name: string;
+    team: number;
+    skills: number;
+    overtime: number; // Negative: the overtime penalty
+    utilization: number;
+    rotation: number; // Negative: the rotation penalty for staying on the entity too long
+    total: number;
+    overtimeHours: number; // Hours above capacity this assignment would cause
+}
+
+// Why a placeholder went to whom: every candidate's score components, best first
+export interface AssignmentRationale {
+    projectId: string;
+    projectName: string;
+    phase: PhaseName;
+    allocIndex: number;
+    hours: number;
+    requirement: string; // What the placeholder accepts, e.g. "Audit Lead" or "Any role"
+    excluded: string[]; // Already on the project, so not considered
+    mismatched: string[]; // Wrong role or below the placeholder's skill level
+    conflicted: string[]; // Barred by an independence or rotation rule, with the reason
+    candidates: CandidateScore[];
+    winnerId: string | null;
+    reason: string;
+}
+
+const SCORE_COMPONENTS: { key: 'team' | 'skills' | 'overtime' | 'utilization' | 'rotation'; label: string }[] = [
+    { key: 'team', label: 'team match' },
+    { key: 'skills', label: 'skills' },
+    { key: 'overtime', label: 'less overtime' },
+    { key: 'utilization', label: 'spare capacity' },
+    { key: 'rotation', label: 'rotation' }
+];
+
+const formatScore = (value: number) => String(Math.round(value * 10) / 10);
+
+// One-line summary of the decision, naming the component that separated winner and runner-up
+const explainAssignment = (scores: CandidateScore[]): string => {
+    if (scores.length === 0) return 'No eligible candidates: everyone is already on this project, lacks the required role or level, or is barred by an independence or rotation rule.';
+    const winner = scores[0];
+    const overtimeNote = winner.overtimeHours > 0 ? ` Adds ${formatScore(winner.overtimeHours)}h above capacity.` : '';
+    if (scores.length === 1) return `${winner.name} was the only eligible candidate.${overtimeNote}`;
+
+    const runnerUp = scores[1];
+    const margin = winner.total - runnerUp.total;
+    if (margin === 0) return `${winner.name} tied with ${runnerUp.name} at ${formatScore(winner.total)} and is listed first.${overtimeNote}`;
+
+    const gain = (key: typeof SCORE_COMPONENTS[number]['key']) => winner[key] - runnerUp[key];
+    const decisive = SCORE_COMPONENTS.reduce((best, c) => gain(c.key) > gain(best.key) ? c : best);
+    return `${winner.name} scored ${formatScore(winner.total)}, ${formatScore(margin)} ahead of ${runnerUp.name}, mainly on ${decisive.label}.${overtimeNote}`;
+};
+
 /**
  * Assigns real staff to placeholder slots based on constraints and optimization goals.
  */
-const assignStaffToPlaceholders = (projects: ProjectInput[], config: GlobalConfig) => {
+const assignStaffToPlaceholders = (projects: ProjectInput[], config: GlobalConfig, weeks: PlanningWeeks, blocked: BlockedWeeksLookup) => {
     const workingProjects = JSON.parse(JSON.stringify(projects));
     const warnings: string[] = [];
+    const weekCount = weeks.headers.length;
+    const granularity = getHoursGranularity(config);
+    const scoring = getScoringProfile(config);
+    const rotationRule = getRotationRule(config);
     
     // 1. Calculate Initial Loads based on current assignments
-    const weeklyLoads = calculateWeeklyAggregates(workingProjects, config);
+    const weeklyLoads = calculateWeeklyAggregates(workingProjects, config, weeks, blocked);
+    const capacities: Record<string, number[]> = {};
+    config.staffTypes.forEach(st => {
+        capacities[st.id] = getCapacityProfile(st, weeks.headers, config.holidayCalendars);
+    });
 
     // 2. Identify Tasks (Placeholder slots)
     interface Task {
         projectId: string;
         projectName: string;
         phaseIndex: number;
+        phaseName: PhaseName;
         allocIndex: number;
-        startWeek: number;
-        duration: number;
-        hoursPerWeek: number;
+        placeholder: StaffType | undefined; // Staff type being replaced; its requirement limits the candidates
+        weekIndices: number[];
+        weeklyHours: number[]; // Hours in each of weekIndices
+        totalHours: number;
         requiredSkills: string[];
         team: string;
     }
 
     const tasks: Task[] = [];
+    const rationales: AssignmentRationale[] = [];
 
     workingProjects.forEach((p: ProjectInput) => {
         const phases = p.phasesConfig || config.phases;
-        let currentWeek = p.startWeekOffset;
+        // Phase overrides can move weeks between phases, so use the weeks the table shows for each phase
+        const { phaseWeeks } = computeProjectLoad(p, config, weeks, blocked);
         
         phases.forEach((phase: any, pIdx: number) => {
-            const phaseTotalHours = (p.budgetHours * phase.percentBudget) / 100;
-            const duration = phase.maxWeeks;
+            const indices = phaseWeeks[phase.name] || [];
+            const duration = indices.length;
             
             if (duration > 0) {
                  phase.staffAllocation.forEach((alloc: any, aIdx: number) => {
-                     if (alloc.staffTypeId === 'placeholder' && alloc.percentage > 0) {
-                         const staffHoursTotal = (phaseTotalHours * alloc.percentage) / 100;
-                         let hoursPerWeek = staffHoursTotal / duration;
-                         // Round to nearest 4 for realistic scheduling
-                         hoursPerWeek = Math.round(hoursPerWeek / 4) * 4;
-                         if (hoursPerWeek === 0 && staffHoursTotal > 0) hoursPerWeek = 4;
+                     if (isPlaceholderId(config, alloc.staffTypeId) && alloc.percentage > 0) {
+                         const staffHoursTotal = getAllocationHours(p, phase, alloc.percentage);
 
                          tasks.push({
                              projectId: p.id,
                              projectName: p.name,
                              phaseIndex: pIdx,
+                             phaseName: phase.name,
                              allocIndex: aIdx,
-                             startWeek: currentWeek,
-                             duration: duration,
-                             hoursPerWeek,
+                             placeholder: config.staffTypes.find(s => s.id === alloc.staffTypeId),
+                             weekIndices: indices,
+                             weeklyHours: distributeHours(staffHoursTotal, duration, granularity),
+                             totalHours: staffHoursTotal,
                              requiredSkills: p.requiredSkills || [],
                              team: p.team || 'General'
                          });
                      }
                  });
             }
-            currentWeek += duration;
         });
     });
 
     // 3. Sort Tasks by Total Effort Descending (Assign big chunks first)
-    tasks.sort((a, b) => (b.hoursPerWeek * b.duration) - (a.hoursPerWeek * a.duration));
+    tasks.sort((a, b) => b.totalHours - a.totalHours);
 
     // 4. Optimization Loop
     tasks.forEach(task => {
@@ -123,62 +741,110 @@ const assignStaffToPlaceholders = (projects: ProjectInput[], config: GlobalConfi
         if (project && project.phasesConfig) {
              project.phasesConfig.forEach((ph: any) => {
                  ph.staffAllocation.forEach((sa: any) => {
-                     if (sa.staffTypeId !== 'placeholder') assignedStaff.add(sa.staffTypeId);
+                     if (!isPlaceholderId(config, sa.staffTypeId)) assignedStaff.add(sa.staffTypeId);
                  });
              });
         }
 
-        const candidates = config.staffTypes.filter(s => 
-            s.id !== 'placeholder' && 
-            !assignedStaff.has(s.id)
-        );
-
-        let bestCandidate = null;
-        let bestScore = -Infinity;
-
-        candidates.forEach(candidate => {
-            let score = 0;
+        // Independence rules are hard constraints: barred members are never scored
+        const period = getPeriod(getProjectSpan(project, config, weeks, blocked), weeks);
+        const conflicted: string[] = [];
+        const mismatched: string[] = [];
+        const entity = getProjectEntity(project);
+        const overRotation = new Set<string>();
+        const candidates = config.staffTypes.filter(s => {
+            if (isPlaceholder(s) || assignedStaff.has(s.id)) return false;
+            // Typed placeholders only take their role, so a lead slot never goes to a portfolio manager
+            if (!canFillPlaceholder(s, task.placeholder)) {
+                mismatched.push(s.name);
+                return false;
+            }
+            const exclusion = findExclusion(s, project, period);
+            if (exclusion) {
+                conflicted.push(`${s.name} (${exclusion.reason || 'independence rule'})`);
+                return false;
+            }
+            const rotation = getRotationStatus(config, entity, s.id);
+            if (rotation?.state === 'over') {
+                if (rotationRule.enforcement === 'forbid') {
+                    conflicted.push(`${s.name} (rotation: ${rotation.years} consecutive years on ${entity})`);
+                    return false;
+                }
+                overRotation.add(s.id);
+            }
+            return true;
+        });
 
+        const scores: CandidateScore[] = candidates.map(candidate => {
             // 1. Team Match Bonus
-            if (candidate.team === task.team) score += 50;
+            const team = candidate.team === task.team ? scoring.teamMatch : 0;
 
             // 2. Skill Match Bonus
+            let skills = 0;
             if (task.requiredSkills.length > 0 && candidate.skills) {
                 task.requiredSkills.forEach(skill => {
                     const level = candidate.skills?.[skill];
-                    if (level === 'Beginner') score += 10;
-                    if (level === 'Intermediate') score += 20;
-                    if (level === 'Advanced') score += 30;
+                    if (level) skills += scoring.skillLevels[level] || 0;
                 });
             }
 
             // 3. Overtime Penalty & Utilization Reward
             let overtimePenalty = 0;
             let utilizationReward = 0;
+            let overtimeHours = 0;
             
-            for (let w = 0; w < task.duration; w++) {
-                const weekIdx = task.startWeek + w;
-                if (weekIdx < 53) {
+            task.weekIndices.forEach((weekIdx, k) => {
+                if (weekIdx < weekCount && weekIdx >= 0) {
                     const currentLoad = weeklyLoads[candidate.id]?.[weekIdx] || 0;
-                    const newLoad = currentLoad + task.hoursPerWeek;
+                    const newLoad = currentLoad + task.weeklyHours[k];
+                    // Capacity after leave/training for this week
+                    const capacity = capacities[candidate.id][weekIdx];
                     
-                    if (newLoad > candidate.maxHoursPerWeek) {
+                    if (newLoad > capacity) {
                         // Squared penalty for overtime to strongly discourage peaks
-                        overtimePenalty += Math.pow(newLoad - candidate.maxHoursPerWeek, 2);
+                        overtimePenalty += Math.pow(newLoad - capacity, 2);
+                        overtimeHours += newLoad - capacity;
                     } else {
                         // Reward for using available capacity
-                        utilizationReward += task.hoursPerWeek;
+                        utilizationReward += task.weeklyHours[k];
                     }
                 }
-            }
+            });
 
-            score -= (overtimePenalty * 10); 
-            score += (utilizationReward * 1);
+            const overtime = -(overtimePenalty * scoring.overtimePenalty);
+            const utilization = utilizationReward * scoring.utilizationReward;
+            const rotation = overRotation.has(candidate.id) ? -rotationRule.penalty : 0;
 
-            if (score > bestScore) {
-                bestScore = score;
-                bestCandidate = candidate;
-            }
+            return {
+                staffTypeId: candidate.id,
+                name: candidate.name,
+                team,
+                skills,
+                overtime,
+                utilization,
+                rotation,
+                total: team + skills + overtime + utilization + rotation,
+                overtimeHours
+            };
+        });
+
+        // Stable sort keeps config order on ties, so the first of equally scored candidates wins as before
+        scores.sort((a, b) => b.total - a.total);
+        const bestCandidate = scores.length > 0 ? scores[0] : null;
+
+        rationales.push({
+            projectId: task.projectId,
+            projectName: task.projectName,
+            phase: task.phaseName,
+            allocIndex: task.allocIndex,
+            hours: task.totalHours,
+            requirement: describePlaceholder(task.placeholder),
+            excluded: config.staffTypes.filter(s => assignedStaff.has(s.id)).map(s => s.name),
+            mismatched,
+            conflicted,
+            candidates: scores,
+            winnerId: bestCandidate ? bestCandidate.staffTypeId : null,
+            reason: explainAssignment(scores)
         });
 
         // If we found a candidate (even if score is low due to overtime), assign them.
@@ -186,106 +852,272 @@ const assignStaffToPlaceholders = (projects: ProjectInput[], config: GlobalConfi
         if (bestCandidate) {
              const p = workingProjects.find((proj: any) => proj.id === task.projectId);
              if (p && p.phasesConfig) {
-                 const candId = (bestCandidate as any).id;
+                 const candId = bestCandidate.staffTypeId;
                  p.phasesConfig[task.phaseIndex].staffAllocation[task.allocIndex].staffTypeId = candId;
 
                  // Update Local Loads
-                 for (let w = 0; w < task.duration; w++) {
-                     const weekIdx = task.startWeek + w;
-                     if (weekIdx < 53) {
-                         if (!weeklyLoads[candId]) weeklyLoads[candId] = new Array(53).fill(0);
-                         weeklyLoads[candId][weekIdx] += task.hoursPerWeek;
+                 task.weekIndices.forEach((weekIdx, k) => {
+                     if (weekIdx < weekCount && weekIdx >= 0) {
+                         if (!weeklyLoads[candId]) weeklyLoads[candId] = new Array(weekCount).fill(0);
+                         weeklyLoads[candId][weekIdx] += task.weeklyHours[k];
                      }
-                 }
+                 });
              }
         } else {
-            warnings.push(`Could not fill placeholder for ${task.projectName}.`);
+            warnings.push(task.placeholder?.placeholder
+                ? `Could not fill the ${describePlaceholder(task.placeholder)} placeholder for ${task.projectName}.`
+                : `Could not fill placeholder for ${task.projectName}.`);
         }
     });
 
-    return { projects: workingProjects, warnings };
+    return { projects: workingProjects, warnings, rationales };
 };
 
+const DEPENDENCY_PENALTY = 1e9; // Cost per week a project starts too early for a dependency
+const CONSTRAINT_PENALTY = 1e9; // Cost per week a project misses its earliest start, latest finish or a milestone
+const CONFLICT_PENALTY = 1e9; // Cost per member whose independence rules forbid a project they are on
+const START_TEMPERATURE_RATIO = 0.01; // Annealing temperature relative to the initial load cost
+const END_TEMPERATURE_RATIO = 1e-4; // Final temperature relative to the start; effectively greedy
+const PROGRESS_INTERVAL = 100; // Iterations between progress reports / time budget checks
+export const DEFAULT_OPTIMIZER_ITERATIONS = 5000;
+
+export interface OptimizationProgress {
+    iteration: number;
+    iterations: number; // Iterations this run will do at most
+    elapsedMs: number;
+    bestCost: number;
+    timeBudgetMs?: number; // Unset when the run has no time limit
+}
+
+export interface OptimizationResult {
+    optimizedProjects: ProjectInput[];
+    warnings: string[];
+    rationales: AssignmentRationale[]; // One per placeholder the assignment step tried to fill
+    seed: number;
+    iterations: number; // Iterations requested; the annealing schedule cools over this many
+    iterationsRun: number; // Where the search stopped; less than `iterations` when stopped early or out of time.
+                           // Re-running the seed with `iterations` and `stopAt: iterationsRun` repeats the plan.
+    cost: number; // Timing cost of the plan; lower is better
+}
+
+export interface OptimizeOptions {
+    seed?: number; // Random when unset
+    iterations?: number;
+    timeBudgetMs?: number; // Stop searching after this long and keep the best plan found so far
+    stopAt?: number; // Stop at this iteration, as a stopped run did; the temperature still follows `iterations`
+    // Called every PROGRESS_INTERVAL iterations with the best plan so far (not a copy; clone before keeping it)
+    onProgress?: (progress: OptimizationProgress, best: OptimizationResult) => void;
+}
+
 /**
- * Optimizes the schedule by adjusting start weeks of unlocked projects.
+ * Warnings for projects the optimizer pulled back into the horizon (`clampedIndices`) whose new start
+ * is earlier than their earliest start or one of their dependencies allows.
+ */
+const getClampWarnings = (
+  plan: ProjectInput[],
+  clampedIndices: number[],
+  config: GlobalConfig,
+  weeks: PlanningWeeks,
+  blocked: BlockedWeeksLookup
+): string[] => {
+    if (clampedIndices.length === 0) return [];
+    const spans = getSpans(plan, config, weeks, blocked);
+    const warnings: string[] = [];
+    clampedIndices.forEach(idx => {
+        const project = plan[idx];
+        const start = getWeekIndex(project.startDate, weeks);
+        const moved = `${project.name} was moved to start ${project.startDate} so it ends inside the planning horizon`;
+        if (project.earliestStart && getWeekIndex(project.earliestStart, weeks) > start) {
+            warnings.push(`${moved}, before its earliest start of ${project.earliestStart}.`);
+        }
+        (project.dependencies || []).forEach(dep => {
+            const predecessor = spans[dep.predecessorId];
+            if (!predecessor || getEarliestStart(dep, predecessor) <= start) return;
+            const name = plan.find(p => p.id === dep.predecessorId)?.name || dep.predecessorId;
+            warnings.push(`${moved}, earlier than its dependency on ${name} allows.`);
+        });
+    });
+    return warnings;
+};
+
+/**
+ * Optimizes the schedule by adjusting start weeks and phase lengths of unlocked projects.
+ * Simulated annealing: worse plans are accepted with a probability that shrinks as the search
+ * cools, so it can climb out of local minima that greedy acceptance gets stuck in.
  */
 const optimizeProjectTiming = (
-  currentProjects: ProjectInput[],
-  config: GlobalConfig
-): ProjectInput[] => {
-    let bestProjects = currentProjects.map(p => ({ ...p }));
-    
-    // Updated Cost function: considers the Total Average Hours per Week (aggregate load)
-    // It minimizes the variance of the total weekly hours across the entire organization.
-    const getCost = (projs: ProjectInput[]) => {
-        const loads = calculateWeeklyAggregates(projs, config);
+  projects: ProjectInput[],
+  config: GlobalConfig,
+  weeks: PlanningWeeks,
+  blocked: BlockedWeeksLookup,
+  seed: number,
+  options: OptimizeOptions,
+  assignment: Pick<OptimizationResult, 'warnings' | 'rationales'>
+): { projects: ProjectInput[], timedOut: boolean, iterations: number, iterationsRun: number, cost: number, clampWarnings: string[] } => {
+    const random = createRandom(seed);
+    const scoring = getScoringProfile(config);
+    // Moves replace project objects instead of mutating them, so `best` can share them with `current`
+    let current = projects.map(p => ({ ...p }));
+    let best = current;
+
+    // Placeholders aren't people, so their load never counts as overtime
+    const capacities: Record<string, number[]> = {};
+    config.staffTypes.forEach(st => {
+        if (!isPlaceholder(st)) capacities[st.id] = getCapacityProfile(st, weeks.headers, config.holidayCalendars);
+    });
+
+    // Each member's hours above their capacity (squared, so one badly overloaded week costs more than
+    // several slightly busy ones), plus the squared organization-wide weekly total to keep the plan smooth
+    const getLoadCost = (projs: ProjectInput[]) => {
+        const loads = calculateWeeklyAggregates(projs, config, weeks, blocked);
         let cost = 0;
         
-        const totalWeeklyLoad = new Array(53).fill(0);
+        const totalWeeklyLoad = new Array(weeks.headers.length).fill(0);
         
-        // Sum up all staff hours for each week to get organization-wide total
-        Object.values(loads).forEach(weeks => {
-            weeks.forEach((hours, idx) => {
+        Object.entries(loads).forEach(([staffId, staffWeeks]) => {
+            const capacity = capacities[staffId];
+            staffWeeks.forEach((hours, idx) => {
                 if (totalWeeklyLoad[idx] !== undefined) {
                     totalWeeklyLoad[idx] += hours;
                 }
+                if (capacity && hours > capacity[idx]) {
+                    cost += scoring.memberOverload * Math.pow(hours - capacity[idx], 2);
+                }
             });
         });
 
-        // Sum of squares of the total load creates a metric that penalizes peaks in the global schedule
         totalWeeklyLoad.forEach(hours => {
-            cost += (hours * hours);
+            cost += scoring.loadSmoothing * (hours * hours);
         });
-        
+
         return cost;
     };
 
-    let bestCost = getCost(bestProjects);
-    const iterations = 5000;
+    const hasConstraints = projects.some(hasDateConstraints);
+    // Rules with dates can start or stop applying when a project moves
+    const checkConflicts = hasExclusions(config);
 
-    const getProjectDuration = (p: ProjectInput) => {
-        const phases = p.phasesConfig || config.phases;
-        return phases.reduce((sum, phase) => sum + phase.maxWeeks, 0);
+    const getCost = (projs: ProjectInput[]) => {
+        let cost = getLoadCost(projs);
+        // Broken dependencies outweigh any load benefit, so a plan that starts out violating them is repaired first
+        findDependencyViolations(projs, getSpans(projs, config, weeks, blocked)).forEach(v => {
+            cost += DEPENDENCY_PENALTY * (v.earliestStart - v.actualStart);
+        });
+        // Date constraints are hard limits too; the start window below keeps moves inside them
+        if (hasConstraints) {
+            cost += CONSTRAINT_PENALTY * getConstraintWeeksOff(findProjectConstraintViolations(projs, config, weeks, blocked));
+        }
+        if (checkConflicts) cost += CONFLICT_PENALTY * findConflicts(projs, config, weeks, blocked).length;
+        return cost;
     };
 
-    const projectConstraints = bestProjects.map((p, i) => {
-        const duration = getProjectDuration(p);
-        const maxStart = Math.max(0, 52 - duration);
-        return { index: i, duration, maxStart };
+    const iterations = options.iterations ?? DEFAULT_OPTIMIZER_ITERATIONS;
+
+    // Projects may only move to start weeks that keep them inside the horizon at their current phase lengths
+    const getMaxStart = (p: ProjectInput) => Math.max(0, weeks.headers.length - getProjectDuration(p, config));
+
+    // Projects that already started before the horizon stay where they are
+    const unlockedIndices = current.map((p, i) => p.locked || getWeekIndex(p.startDate, weeks) < 0 ? -1 : i).filter(i => i !== -1);
+
+    if (unlockedIndices.length === 0) return { projects, timedOut: false, iterations, iterationsRun: 0, cost: getCost(current), clampWarnings: [] };
+
+    // Unlocked projects that run past the horizon are pulled back before anything is scored; every move
+    // below stays inside it, so the cost of each plan is the cost of the plan that is returned
+    const clampedIndices = unlockedIndices.filter(idx => getWeekIndex(current[idx].startDate, weeks) > getMaxStart(current[idx]));
+    clampedIndices.forEach(idx => {
+        current[idx] = { ...current[idx], startDate: toDateKey(addWeeks(weeks.start, getMaxStart(current[idx]))) };
     });
+    const clampWarnings = getClampWarnings(current, clampedIndices, config, weeks, blocked);
+    best = current;
 
-    const unlockedIndices = bestProjects.map((p, i) => p.locked ? -1 : i).filter(i => i !== -1);
+    let currentCost = getCost(current);
+    let bestCost = currentCost;
+    const reported = { ...assignment, warnings: [...assignment.warnings, ...clampWarnings] };
 
-    if (unlockedIndices.length === 0) return currentProjects;
+    const hasDependencies = current.some(p => p.dependencies && p.dependencies.length > 0);
+    const startedAt = Date.now();
+    let timedOut = false;
+    const limit = Math.min(iterations, options.stopAt ?? iterations);
+    let iterationsRun = limit;
 
-    for (let i = 0; i < iterations; i++) {
-        const idx = unlockedIndices[Math.floor(Math.random() * unlockedIndices.length)];
-        const originalOffset = bestProjects[idx].startWeekOffset;
-        const constraint = projectConstraints[idx];
-        const newOffset = Math.floor(Math.random() * (constraint.maxStart + 1));
-        
-        if (newOffset === originalOffset) continue;
+    // Temperature cools geometrically; it is scaled to the load cost so dependency penalties never set it
+    const startTemperature = Math.max(1, getLoadCost(current) * START_TEMPERATURE_RATIO);
+    const endTemperature = startTemperature * END_TEMPERATURE_RATIO;
+
+    for (let i = 0; i < limit; i++) {
+        if (i % PROGRESS_INTERVAL === 0) {
+            const elapsedMs = Date.now() - startedAt;
+            options.onProgress?.(
+                { iteration: i, iterations: limit, elapsedMs, bestCost, timeBudgetMs: options.timeBudgetMs },
+                { ...reported, optimizedProjects: best, seed, iterations, iterationsRun: i, cost: bestCost }
+            );
+            if (options.timeBudgetMs !== undefined && elapsedMs >= options.timeBudgetMs) {
+                timedOut = true;
+                iterationsRun = i;
+                break;
+            }
+        }
 
-        bestProjects[idx].startWeekOffset = newOffset;
-        const newCost = getCost(bestProjects);
+        const idx = unlockedIndices[Math.floor(random() * unlockedIndices.length)];
+        const project = current[idx];
+        let candidate: ProjectInput;
 
-        if (newCost < bestCost) {
-            bestCost = newCost;
+        // Half of the moves stretch or compress one phase within its minWeeks..maxWeeks range
+        const phases = project.phasesConfig || config.phases;
+        const flexiblePhases = phases.map((ph, k) => ph.minWeeks < ph.maxWeeks ? k : -1).filter(k => k !== -1);
+        if (flexiblePhases.length > 0 && random() < 0.5) {
+            const k = flexiblePhases[Math.floor(random() * flexiblePhases.length)];
+            const phase = phases[k];
+            const newWeeks = phase.minWeeks + Math.floor(random() * (phase.maxWeeks - phase.minWeeks + 1));
+            if (newWeeks === getPhaseDuration(phase)) continue;
+
+            candidate = { ...project, phasesConfig: phases.map((ph, j) => j === k ? { ...ph, weeks: newWeeks } : ph) };
+            if (getWeekIndex(candidate.startDate, weeks) > getMaxStart(candidate)) continue;
         } else {
-            bestProjects[idx].startWeekOffset = originalOffset;
+            // Only explore start weeks that keep the project's dependencies and date limits satisfied
+            let minStart = 0;
+            let maxStart = getMaxStart(project);
+            if (hasDependencies || hasDateConstraints(project)) {
+                const spans = getSpans(current, config, weeks, blocked);
+                const ownLength = spans[project.id].end - spans[project.id].start;
+                if (project.earliestStart) minStart = Math.max(minStart, getWeekIndex(project.earliestStart, weeks));
+                if (project.latestFinish) maxStart = Math.min(maxStart, getWeekIndex(project.latestFinish, weeks) - ownLength + 1);
+                (project.dependencies || []).forEach(dep => {
+                    const predecessor = spans[dep.predecessorId];
+                    if (predecessor) minStart = Math.max(minStart, getEarliestStart(dep, predecessor));
+                });
+                current.forEach(successor => {
+                    (successor.dependencies || []).forEach(dep => {
+                        if (dep.predecessorId !== project.id) return;
+                        const latest = spans[successor.id].start - dep.lagWeeks - (dep.type === 'finish-to-start' ? ownLength : 0);
+                        maxStart = Math.min(maxStart, latest);
+                    });
+                });
+                if (minStart > maxStart) continue;
+            }
+            const newStart = minStart + Math.floor(random() * (maxStart - minStart + 1));
+            
+            if (newStart === getWeekIndex(project.startDate, weeks)) continue;
+
+            candidate = { ...project, startDate: toDateKey(addWeeks(weeks.start, newStart)) };
         }
-    }
 
-    bestProjects.forEach((p, idx) => {
-        if (!p.locked) {
-             const constraint = projectConstraints[idx];
-             if (p.startWeekOffset > constraint.maxStart) {
-                 p.startWeekOffset = constraint.maxStart;
-             }
+        const next = current.slice();
+        next[idx] = candidate;
+        const newCost = getCost(next);
+        const temperature = startTemperature * Math.pow(endTemperature / startTemperature, i / iterations);
+
+        if (newCost <= currentCost || random() < Math.exp((currentCost - newCost) / temperature)) {
+            current = next;
+            currentCost = newCost;
+            if (newCost < bestCost) {
+                best = next;
+                bestCost = newCost;
+            }
         }
-    });
+    }
 
-    return bestProjects;
+    return { projects: best, timedOut, iterations, iterationsRun, cost: bestCost, clampWarnings };
 };
 
 /**
@@ -295,16 +1127,27 @@ const optimizeProjectTiming = (
  */
 export const optimizeSchedule = (
   projects: ProjectInput[],
-  config: GlobalConfig
-): { optimizedProjects: ProjectInput[], warnings: string[] } => {
+  config: GlobalConfig,
+  options: OptimizeOptions = {}
+): OptimizationResult => {
+  const weeks = getPlanningWeeks(config);
+  const blocked = createBlockedWeeksLookup(config, weeks);
+
   // Phase 1: Assign Staff
-  const { projects: staffedProjects, warnings } = assignStaffToPlaceholders(projects, config);
+  const { projects: staffedProjects, warnings, rationales } = assignStaffToPlaceholders(projects, config, weeks, blocked);
   
   // Phase 2: Optimize Timing
   // We use the staffed projects so timing decisions are based on real people's loads
-  const finalProjects = optimizeProjectTiming(staffedProjects, config);
+  const seed = options.seed ?? randomSeed();
+  const { projects: finalProjects, timedOut, iterations, iterationsRun, cost, clampWarnings } = optimizeProjectTiming(staffedProjects, config, weeks, blocked, seed, options, { warnings, rationales });
+  warnings.push(...clampWarnings);
+  if (timedOut) warnings.push(`Stopped after the ${Math.round(options.timeBudgetMs! / 1000)}s time budget; the best plan found so far was kept.`);
+  findDependencyViolations(finalProjects, getSpans(finalProjects, config, weeks, blocked)).forEach(v => warnings.push(v.message));
+  findProjectConstraintViolations(finalProjects, config, weeks, blocked).forEach(v => warnings.push(v.message));
+  findConflicts(finalProjects, config, weeks, blocked).forEach(c => warnings.push(c.message));
+  findRotationIssues(finalProjects, config).forEach(r => warnings.push(r.message));
 
-  return { optimizedProjects: finalProjects, warnings };
+  return { optimizedProjects: finalProjects, warnings, rationales, seed, iterations, iterationsRun, cost };
 };
 
 /**
@@ -314,159 +1157,55 @@ export const generateSchedule = (
   projects: ProjectInput[],
   config: GlobalConfig
 ): ScheduleData => {
-  const { year, staffTypes } = config;
+  const { staffTypes } = config;
   
   // 1. Generate Timeline Headers
-  const startDate = startOfWeek(startOfYear(new Date(year, 0, 1)), { weekStartsOn: 1 });
-  let currentMonday = startDate;
-  if (currentMonday.getFullYear() < year) {
-      currentMonday = addWeeks(currentMonday, 1);
-  }
-  
-  const headers: string[] = [];
-  for (let i = 0; i < 53; i++) {
-    const d = addWeeks(currentMonday, i);
-    if (d.getFullYear() > year) break; 
-    headers.push(d.toISOString());
-  }
+  const weeks = getPlanningWeeks(config);
+  const { headers } = weeks;
+  const blocked = createBlockedWeeksLookup(config, weeks);
 
   const rows: ScheduleRow[] = [];
 
   projects.forEach((project) => {
-    const phases = project.phasesConfig || config.phases;
-    
-    // --- Pre-calculate Allocation Profiles per Phase ---
-    // How many hours per week does a staff type get in a specific phase (normalized)?
-    const phaseProfiles: Record<string, Record<string, number>> = {};
-    const allocatedStaffIds = new Set<string>();
-
-    phases.forEach(p => {
-        const totalPhaseHours = (project.budgetHours * p.percentBudget) / 100;
-        const duration = Math.max(1, p.maxWeeks); // Avoid division by zero
-        const weeklyPhaseHours = totalPhaseHours / duration;
-        
-        phaseProfiles[p.name] = {};
-        p.staffAllocation.forEach(sa => {
-            phaseProfiles[p.name][sa.staffTypeId] = (weeklyPhaseHours * sa.percentage) / 100;
-            // Track explicit allocations (even if 0%)
-            allocatedStaffIds.add(sa.staffTypeId);
-        });
-    });
-
-    // --- Determine Effective Phase for each Week ---
-    // Start with natural timeline
-    const weeklyPhases: Record<string, PhaseName> = {};
-    let weekCursor = Math.max(0, Math.min(project.startWeekOffset, headers.length - 1));
-    
-    phases.forEach(p => {
-        for (let i = 0; i < p.maxWeeks; i++) {
-            if (weekCursor < headers.length) {
-                weeklyPhases[headers[weekCursor]] = p.name;
-            }
-            weekCursor++;
-        }
-    });
-
-    // Apply Phase Overrides
-    if (project.overrides?.phase) {
-        Object.entries(project.overrides.phase).forEach(([date, phase]) => {
-            if (headers.includes(date)) {
-                weeklyPhases[date] = phase;
-            }
-        });
-    }
+    const { weeklyPhases, phaseAnchors, rows: staffRows } = computeProjectLoad(project, config, weeks, blocked);
 
     // --- Generate Rows for Staff ---
-    staffTypes.forEach(staff => {
-        // We need to determine how many splits (indices) are needed.
-        // This is max(calculated_max_load, max_override_index).
-        
-        let maxWeeklyLoadCalculated = 0;
-        let maxOverrideIndex = 0;
+    staffRows.forEach(staffRow => {
+        const staff = staffTypes.find(st => st.id === staffRow.staffTypeId)!;
+        const rowCells: ScheduleCell[] = headers.map(d => ({ date: d, hours: 0, phase: null }));
+        let rowTotalHours = 0;
+        let hasAnyHours = false;
 
-        // Check overrides to see if we have manual data for high indices
-        if (project.overrides?.staff) {
-            Object.keys(project.overrides.staff).forEach(key => {
-                const [sId, sIdx] = key.split('-');
-                if (sId === staff.id) {
-                    const idx = parseInt(sIdx);
-                    if (idx > maxOverrideIndex) maxOverrideIndex = idx;
-                }
-            });
-        }
+        headers.forEach((date, dateIdx) => {
+            const cellHours = staffRow.hours[dateIdx];
+            const anchor = staffRow.anchors[dateIdx];
+            const isOverride = anchor !== null;
+            if (phaseAnchors.has(dateIdx)) rowCells[dateIdx].phaseAnchor = phaseAnchors.get(dateIdx);
 
-        // Calculate load based on effective phases
-        headers.forEach(date => {
-            const phaseName = weeklyPhases[date];
-            if (phaseName && phaseProfiles[phaseName]) {
-                 const hours = phaseProfiles[phaseName][staff.id] || 0;
-                 if (hours > maxWeeklyLoadCalculated) maxWeeklyLoadCalculated = hours;
+            if (cellHours > 0 || isOverride) {
+                rowCells[dateIdx].hours = cellHours;
+                // If we have an override phase, use it, otherwise use computed
+                rowCells[dateIdx].phase = weeklyPhases.get(dateIdx) || null;
+                rowCells[dateIdx].isOverride = isOverride;
+                if (isOverride) rowCells[dateIdx].overrideAnchor = anchor;
+                rowTotalHours += cellHours;
+                hasAnyHours = true;
             }
         });
 
-        // We disable automatic splitting based on capacity overflow.
-        // Users can manually add splits via overrides if they want a second row for the same person/role.
-        const calculatedSplits = 1;
-        const isExplicitlyAllocated = allocatedStaffIds.has(staff.id);
-
-        // Ensure at least 1 row if we have calculated load > 0, OR explicit allocation, OR overrides exist
-        let numSplits = Math.max(calculatedSplits, maxOverrideIndex);
-        if (maxWeeklyLoadCalculated === 0 && maxOverrideIndex === 0 && !isExplicitlyAllocated) numSplits = 0;
-
-        for (let i = 0; i < numSplits; i++) {
-            const staffIndex = i + 1;
-            const staffKey = `${staff.id}-${staffIndex}`;
-            
-            const rowCells: ScheduleCell[] = headers.map(d => ({ date: d, hours: 0, phase: null }));
-            let rowTotalHours = 0;
-            let hasAnyHours = false;
-
-            headers.forEach((date, dateIdx) => {
-                const phaseName = weeklyPhases[date];
-                let cellHours = 0;
-                let isOverride = false;
-                
-                // 1. Check specific hour override
-                if (project.overrides?.staff?.[staffKey]?.[date] !== undefined) {
-                    cellHours = project.overrides.staff[staffKey][date];
-                    isOverride = true;
-                } 
-                // 2. Fallback to calculated if phase exists
-                else if (phaseName) {
-                    const rawTotalForType = phaseProfiles[phaseName][staff.id] || 0;
-                    if (rawTotalForType > 0) {
-                        const rawPerPerson = rawTotalForType / numSplits;
-                        // Rounding logic
-                        let baseWeekly = Math.round(rawPerPerson / 4) * 4;
-                        if (baseWeekly === 0 && rawPerPerson > 0) baseWeekly = 4;
-                        cellHours = baseWeekly;
-                    }
-                }
-
-                if (cellHours > 0 || isOverride) {
-                    rowCells[dateIdx].hours = cellHours;
-                    // If we have an override phase, use it, otherwise use computed
-                    rowCells[dateIdx].phase = phaseName || null; 
-                    rowCells[dateIdx].isOverride = isOverride;
-                    rowTotalHours += cellHours;
-                    hasAnyHours = true;
-                }
+        // Only add the row if it has content (or if it was forced by override index logic effectively, or explicit allocation)
+        if (hasAnyHours || staffRow.keep) {
+            rows.push({
+                rowId: `${project.id}-${staff.id}-${staffRow.staffIndex - 1}`,
+                projectId: project.id,
+                staffTypeId: staff.id,
+                projectName: project.name,
+                staffTypeName: staff.name,
+                staffRole: staff.role || 'Auditor',
+                staffIndex: staffRow.staffIndex,
+                cells: rowCells,
+                totalHours: rowTotalHours
             });
-
-            // Only add the row if it has content (or if it was forced by override index logic effectively, or explicit allocation)
-            if (numSplits > 0 && (hasAnyHours || staffIndex <= maxOverrideIndex || (isExplicitlyAllocated && staffIndex === 1))) {
-                rows.push({
-                    rowId: `${project.id}-${staff.id}-${i}`,
-                    projectId: project.id,
-                    staffTypeId: staff.id,
-                    projectName: project.name,
-                    staffTypeName: staff.name,
-                    staffRole: staff.role || 'Auditor',
-                    staffIndex: staffIndex,
-                    cells: rowCells,
-                    totalHours: rowTotalHours
-                });
-            }
         }
     });
   });
@@ -0,0 +1,187 @@
+import { GlobalConfig, ProjectInput, ScheduleData, SkillLevel } from '../types';
+import { getCapacityProfile } from './availability';
+
+/**
+ * Schedule KPIs shared by the dashboard in ScheduleTable and the management report.
+ */
+
+export const SKILL_POINTS: Record<SkillLevel, number> = {
+  None: 0,
+  Beginner: 1,
+  Intermediate: 2,
+  Advanced: 3
+};
+
+export interface ScheduleStats {
+  totalAvgWeekly: number;
+  totalOvertime: number;
+  utilization: number; // 0-100
+  totalSkillScore: number;
+}
+
+export interface MemberUtilization {
+  staffKey: string; // "staffTypeId-staffIndex"
+  staffTypeId: string;
+  label: string;
+  role: string;
+  team: string;
+  maxHoursPerWeek: number;
+  capacityHours: number; // After leave and other availability entries
+  weeklyCapacity: number[];
+  scheduledHours: number;
+  utilization: number; // 0-100
+  overtimeHours: number;
+  peakWeekHours: number;
+  overloadedWeeks: number;
+  weeklyHours: number[];
+}
+
+export interface SkillCoverage {
+  score: number;
+  contributors: string[]; // "Name (Level)"
+}
+
+/**
+ * Sums skill points of the given staff for one required skill.
+ */
+export const getSkillCoverage = (skill: string, staffIds: Iterable<string>, config: GlobalConfig): SkillCoverage => {
+  let score = 0;
+  const contributors: string[] = [];
+  Array.from(staffIds).forEach(staffId => {
+    const staff = config.staffTypes.find(s => s.id === staffId);
+    const level = staff?.skills?.[skill];
+    if (level) {
+      score += SKILL_POINTS[level] || 0;
+      if (level !== 'None') contributors.push(`${staff?.name} (${level})`);
+    }
+  });
+  return { score, contributors };
+};
+
+/**
+ * Weekly load and overtime per staff row key ("staffTypeId-staffIndex").
+ */
+export const calculateMemberUtilization = (data: ScheduleData, config: GlobalConfig): MemberUtilization[] => {
+  const weeksCount = data.headers.length || 52;
+  const result: Record<string, MemberUtilization> = {};
+
+  data.rows.forEach(row => {
+    const staffKey = `${row.staffTypeId}-${row.staffIndex}`;
+    if (!result[staffKey]) {
+      const staff = config.staffTypes.find(s => s.id === row.staffTypeId);
+      const maxHours = staff ? staff.maxHoursPerWeek : 40;
+      const weeklyCapacity = staff ? getCapacityProfile(staff, data.headers, config.holidayCalendars) : data.headers.map(() => maxHours);
+      result[staffKey] = {
+        staffKey,
+        staffTypeId: row.staffTypeId,
+        label: row.staffIndex > 1 ? `${row.staffTypeName} #${row.staffIndex}` : row.staffTypeName,
+        role: row.staffRole,
+        team: staff?.team || 'General',
+        maxHoursPerWeek: maxHours,
+        capacityHours: data.headers.length > 0 ? weeklyCapacity.reduce((sum, h) => sum + h, 0) : maxHours * weeksCount,
+        weeklyCapacity,
+        scheduledHours: 0,
+        utilization: 0,
+        overtimeHours: 0,
+        peakWeekHours: 0,
+        overloadedWeeks: 0,
+        weeklyHours: new Array(data.headers.length).fill(0)
+      };
+    }
+    const member = result[staffKey];
+    row.cells.forEach((cell, idx) => {
+      member.weeklyHours[idx] += (cell.hours || 0);
+    });
+  });
+
+  return Object.values(result).map(member => {
+    member.weeklyHours.forEach((hours, idx) => {
+      const capacity = member.weeklyCapacity[idx];
+      member.scheduledHours += hours;
+      if (hours > member.peakWeekHours) member.peakWeekHours = hours;
+      if (hours > capacity) {
+        member.overtimeHours += (hours - capacity);
+        member.overloadedWeeks++;
+      }
+    });
+    member.utilization = member.capacityHours > 0 ? (member.scheduledHours / member.capacityHours) * 100 : 0;
+    return member;
+  });
+};
+
+export const calculateScheduleStats = (data: ScheduleData, projects: ProjectInput[], config: GlobalConfig): ScheduleStats => {
+  const weeksCount = data.headers.length || 52;
+  let grandTotal = 0;
+  const uniqueStaffIds = new Set<string>();
+
+  data.rows.forEach(row => {
+    uniqueStaffIds.add(row.staffTypeId);
+    grandTotal += row.cells.reduce((acc, cell) => acc + (cell.hours || 0), 0);
+  });
+
+  const totalOvertime = calculateMemberUtilization(data, config).reduce((sum, m) => sum + m.overtimeHours, 0);
+
+  // Capacity counts each person once, even if they have split rows
+  let totalCapacity = 0;
+  uniqueStaffIds.forEach(id => {
+    const staff = config.staffTypes.find(s => s.id === id);
+    if (staff) {
+      totalCapacity += data.headers.length > 0
+        ? getCapacityProfile(staff, data.headers, config.holidayCalendars).reduce((sum, h) => sum + h, 0)
+        : staff.maxHoursPerWeek * weeksCount;
+    }
+  });
+
+  const utilization = totalCapacity > 0 ? (grandTotal / totalCapacity) * 100 : 0;
+  const totalAvgWeekly = grandTotal / weeksCount;
+
+  let totalSkillScore = 0;
+  const assignmentMap: Record<string, Set<string>> = {};
+  data.rows.forEach(row => {
+    if (row.totalHours > 0) {
+      if (!assignmentMap[row.projectId]) assignmentMap[row.projectId] = new Set();
+      assignmentMap[row.projectId].add(row.staffTypeId);
+    }
+  });
+
+  Object.keys(assignmentMap).forEach(projectId => {
+    const project = projects.find(p => p.id === projectId);
+    if (project && project.requiredSkills && project.requiredSkills.length > 0) {
+      let projectPoints = 0;
+      project.requiredSkills.forEach(skillName => {
+        projectPoints += getSkillCoverage(skillName, assignmentMap[projectId], config).score;
+      });
+      totalSkillScore += (projectPoints / project.requiredSkills.length);
+    }
+  });
+
+  return { totalAvgWeekly, totalOvertime, utilization, totalSkillScore };
+};
+
+export interface BudgetVariance {
+  budgetHours: number;
+  plannedHours: number; // Scheduled hours on the horizon, including manual edits
+  variance: number; // plannedHours - budgetHours
+}
+
+/**
+ * Planned vs. budgeted hours per project. Pass the unfiltered schedule so every week counts.
+ */
+export const calculateBudgetVariance = (data: ScheduleData, projects: ProjectInput[]): Record<string, BudgetVariance> => {
+  const planned: Record<string, number> = {};
+  data.rows.forEach(row => {
+    planned[row.projectId] = (planned[row.projectId] || 0) + row.cells.reduce((acc, cell) => acc + (cell.hours || 0), 0);
+  });
+
+  const result: Record<string, BudgetVariance> = {};
+  projects.forEach(project => {
+    // Rounded to hundredths so float noise doesn't show up as a variance
+    const plannedHours = Math.round((planned[project.id] || 0) * 100) / 100;
+    result[project.id] = {
+      budgetHours: project.budgetHours,
+      plannedHours,
+      variance: Math.round((plannedHours - project.budgetHours) * 100) / 100
+    };
+  });
+  return result;
+};
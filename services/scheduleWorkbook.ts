@@ -0,0 +1,306 @@
+import * as XLSX from 'xlsx';
+import { GlobalConfig, ProjectInput, ScheduleData, PhaseName, SkillLevel } from '../types';
+import { writeOverride, describeRelativeWeek } from './scheduleEngine';
+import { format, parseISO } from 'date-fns';
+
+/**
+ * Multi-sheet schedule workbook that can be edited offline and re-imported.
+ * Edited hour and phase cells come back as `ProjectOverrides` entries.
+ */
+export const SCHEDULE_WORKBOOK_FORMAT = 'audit-scheduler-schedule';
+export const SCHEDULE_WORKBOOK_VERSION = 1;
+
+const SHEETS = {
+  info: 'Info',
+  schedule: 'Schedule',
+  phases: 'Phases',
+  overrides: 'Overrides',
+  projects: 'Projects',
+  staff: 'Staff'
+};
+
+const COLUMNS = {
+  projectId: 'Project ID',
+  projectName: 'Project Name',
+  staffId: 'Staff ID',
+  staffName: 'Staff Name',
+  role: 'Role',
+  staffIndex: 'Staff #',
+  total: 'Total Hours'
+};
+
+const PHASE_NAMES = Object.values(PhaseName) as string[];
+
+export interface ScheduleChange {
+  id: string; // Stable key for selection in the preview
+  projectId: string;
+  projectName: string;
+  type: 'hours' | 'phase';
+  staffTypeId?: string;
+  staffIndex?: number;
+  staffLabel?: string;
+  date: string; // ISO date matching ScheduleData headers
+  before: number | string | null;
+  after: number | string;
+}
+
+export interface ScheduleWorkbookDiff {
+  error: string | null; // Set when the workbook cannot be used at all
+  changes: ScheduleChange[];
+  warnings: string[];
+}
+
+const dayLabel = (iso: string) => format(parseISO(iso), 'yyyy-MM-dd');
+
+const formatSkills = (skills?: Record<string, SkillLevel>) =>
+  Object.entries(skills || {})
+    .filter(([, level]) => level !== 'None')
+    .map(([skill, level]) => `${skill}: ${level}`)
+    .join('; ');
+
+/**
+ * Effective phase per week for each project, taken from the generated cells.
+ */
+const getProjectPhases = (data: ScheduleData): Record<string, (string | null)[]> => {
+  const result: Record<string, (string | null)[]> = {};
+  data.rows.forEach(row => {
+    if (!result[row.projectId]) result[row.projectId] = data.headers.map(() => null);
+    row.cells.forEach((cell, idx) => {
+      if (cell.phase && !result[row.projectId][idx]) result[row.projectId][idx] = cell.phase;
+    });
+  });
+  return result;
+};
+
+export const buildScheduleWorkbook = (data: ScheduleData, projects: ProjectInput[], config: GlobalConfig): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+  const dateHeaders = data.headers.map(dayLabel);
+
+  // Info: lets the importer recognise its own files
+  const info = [
+    ['Format', SCHEDULE_WORKBOOK_FORMAT],
+    ['Version', SCHEDULE_WORKBOOK_VERSION],
+    ['Year', config.year],
+    ['Exported At', new Date().toISOString()],
+    [],
+    ['Edit hours on the Schedule sheet and phases on the Phases sheet, then use "Import Edits" to apply them as overrides.']
+  ];
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(info), SHEETS.info);
+
+  // Schedule: hours per staff row and week
+  const schedule: any[][] = [[COLUMNS.projectId, COLUMNS.projectName, COLUMNS.staffId, COLUMNS.staffName, COLUMNS.role, COLUMNS.staffIndex, COLUMNS.total, ...dateHeaders]];
+  data.rows.forEach(row => {
+    schedule.push([row.projectId, row.projectName, row.staffTypeId, row.staffTypeName, row.staffRole, row.staffIndex, row.totalHours, ...row.cells.map(c => c.hours)]);
+  });
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(schedule), SHEETS.schedule);
+
+  // Phases: effective phase per project and week
+  const projectPhases = getProjectPhases(data);
+  const phases: any[][] = [[COLUMNS.projectId, COLUMNS.projectName, ...dateHeaders]];
+  projects.forEach(p => {
+    if (!projectPhases[p.id]) return;
+    phases.push([p.id, p.name, ...projectPhases[p.id].map(ph => ph || '')]);
+  });
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(phases), SHEETS.phases);
+
+  // Overrides: every manual cell, for reference
+  // Dated edits list their week; edits that move with the project list their week within a phase
+  const overrides: any[][] = [[COLUMNS.projectId, COLUMNS.projectName, 'Type', COLUMNS.staffId, COLUMNS.staffIndex, 'Anchor', 'Week', 'Value']];
+  const addStaffOverrides = (p: ProjectInput, byRow: Record<string, Record<string, number>> | undefined, anchor: string, label: (week: string) => string) => {
+    Object.entries(byRow || {}).forEach(([key, weeks]) => {
+      const splitAt = key.lastIndexOf('-');
+      Object.entries(weeks).forEach(([week, hours]) => {
+        overrides.push([p.id, p.name, 'hours', key.slice(0, splitAt), Number(key.slice(splitAt + 1)), anchor, label(week), hours]);
+      });
+    });
+  };
+  projects.forEach(p => {
+    Object.entries(p.overrides?.phase || {}).forEach(([date, phase]) => {
+      overrides.push([p.id, p.name, 'phase', '', '', 'Date', dayLabel(date), phase]);
+    });
+    Object.entries(p.overrides?.relativePhase || {}).forEach(([week, phase]) => {
+      overrides.push([p.id, p.name, 'phase', '', '', 'Project', describeRelativeWeek(week), phase]);
+    });
+    addStaffOverrides(p, p.overrides?.staff, 'Date', dayLabel);
+    addStaffOverrides(p, p.overrides?.relativeStaff, 'Project', describeRelativeWeek);
+  });
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(overrides), SHEETS.overrides);
+
+  // Projects & Staff: same column names as the spreadsheet import templates
+  const projectRows: any[][] = [['ID', 'Project Name', 'Team', 'Budget (Hours)', 'Start Date', 'Target End', 'Locked', 'Required Skills']];
+  projects.forEach(p => {
+    projectRows.push([p.id, p.name, p.team || '', p.budgetHours, p.startDate, p.targetEndDate || '', p.locked ? 'Yes' : 'No', (p.requiredSkills || []).join('; ')]);
+  });
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(projectRows), SHEETS.projects);
+
+  const staffRows: any[][] = [['ID', 'Name', 'Role', 'Team', 'Max Hours / Week', 'Skill Levels']];
+  config.staffTypes.forEach(s => {
+    staffRows.push([s.id, s.name, s.role, s.team || '', s.maxHoursPerWeek, formatSkills(s.skills)]);
+  });
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(staffRows), SHEETS.staff);
+
+  return wb;
+};
+
+const sheetRows = (wb: XLSX.WorkBook, name: string): any[][] | null => {
+  const ws = wb.Sheets[name];
+  if (!ws) return null;
+  return XLSX.utils.sheet_to_json<any[]>(ws, { header: 1, defval: '', raw: true });
+};
+
+const headerLabel = (v: any) => (v instanceof Date ? format(v, 'yyyy-MM-dd') : String(v).trim());
+
+const toHours = (v: any): number | null => {
+  if (v === '' || v === null || v === undefined) return 0;
+  const n = typeof v === 'number' ? v : Number(String(v).replace(/,/g, ''));
+  return isNaN(n) ? null : n;
+};
+
+/**
+ * Compares an edited workbook with the current schedule and lists the cells that changed.
+ * `current` must be the unfiltered schedule so every exported week can be matched.
+ */
+export const diffScheduleWorkbook = (
+  wb: XLSX.WorkBook,
+  current: ScheduleData,
+  projects: ProjectInput[],
+  config: GlobalConfig
+): ScheduleWorkbookDiff => {
+  const warnings: string[] = [];
+  const changes: ScheduleChange[] = [];
+
+  const infoRows = sheetRows(wb, SHEETS.info);
+  const formatRow = infoRows?.find(r => r[0] === 'Format');
+  if (!formatRow || formatRow[1] !== SCHEDULE_WORKBOOK_FORMAT) {
+    return { error: 'This workbook was not created by "Export to Excel" (the Info sheet is missing).', changes, warnings };
+  }
+  const versionRow = infoRows!.find(r => r[0] === 'Version');
+  if (versionRow && Number(versionRow[1]) > SCHEDULE_WORKBOOK_VERSION) {
+    return { error: `Workbook version ${versionRow[1]} is newer than this app supports.`, changes, warnings };
+  }
+
+  const headerByDay: Record<string, number> = {};
+  current.headers.forEach((h, idx) => { headerByDay[dayLabel(h)] = idx; });
+
+  const projectById = new Map(projects.map(p => [p.id, p]));
+  const staffById = new Map(config.staffTypes.map(s => [s.id, s]));
+
+  // --- Hours ---
+  const schedule = sheetRows(wb, SHEETS.schedule);
+  if (!schedule || schedule.length === 0) {
+    warnings.push('Schedule sheet is missing.');
+  } else {
+    const header = schedule[0].map(headerLabel);
+    const col = (name: string) => header.indexOf(name);
+    const dateCols = header.map((h, i) => ({ i, h })).filter(c => headerByDay[c.h] !== undefined);
+    const skippedDates = header.filter(h => /^\d{4}-\d{2}-\d{2}$/.test(h) && headerByDay[h] === undefined);
+    if (skippedDates.length > 0) warnings.push(`${skippedDates.length} week columns are outside the current planning horizon and were ignored.`);
+
+    const rowIndex = new Map(current.rows.map(r => [`${r.projectId}|${r.staffTypeId}|${r.staffIndex}`, r]));
+
+    schedule.slice(1).forEach((cells, i) => {
+      const sheetRow = i + 2;
+      const projectId = String(cells[col(COLUMNS.projectId)] ?? '').trim();
+      const staffTypeId = String(cells[col(COLUMNS.staffId)] ?? '').trim();
+      if (!projectId && !staffTypeId) return;
+
+      const project = projectById.get(projectId);
+      const staff = staffById.get(staffTypeId);
+      if (!project || !staff) {
+        warnings.push(`Schedule row ${sheetRow}: unknown ${!project ? `project "${projectId}"` : `staff "${staffTypeId}"`}, skipped.`);
+        return;
+      }
+      const staffIndex = Math.max(1, parseInt(String(cells[col(COLUMNS.staffIndex)] || 1)) || 1);
+      const existing = rowIndex.get(`${projectId}|${staffTypeId}|${staffIndex}`);
+
+      dateCols.forEach(({ i: c, h }) => {
+        const weekIdx = headerByDay[h];
+        const after = toHours(cells[c]);
+        if (after === null) {
+          warnings.push(`Schedule row ${sheetRow}, ${h}: "${cells[c]}" is not a number, skipped.`);
+          return;
+        }
+        const before = existing ? existing.cells[weekIdx].hours : 0;
+        if (after === before) return;
+        changes.push({
+          id: `h|${projectId}|${staffTypeId}-${staffIndex}|${current.headers[weekIdx]}`,
+          projectId,
+          projectName: project.name,
+          type: 'hours',
+          staffTypeId,
+          staffIndex,
+          staffLabel: staffIndex > 1 ? `${staff.name} #${staffIndex}` : staff.name,
+          date: current.headers[weekIdx],
+          before: existing ? before : null,
+          after
+        });
+      });
+    });
+  }
+
+  // --- Phases ---
+  const phases = sheetRows(wb, SHEETS.phases);
+  if (phases && phases.length > 0) {
+    const header = phases[0].map(headerLabel);
+    const idCol = header.indexOf(COLUMNS.projectId);
+    const currentPhases = getProjectPhases(current);
+
+    phases.slice(1).forEach((cells, i) => {
+      const sheetRow = i + 2;
+      const projectId = String(cells[idCol] ?? '').trim();
+      if (!projectId) return;
+      const project = projectById.get(projectId);
+      if (!project) {
+        warnings.push(`Phases row ${sheetRow}: unknown project "${projectId}", skipped.`);
+        return;
+      }
+
+      header.forEach((h, c) => {
+        const weekIdx = headerByDay[h];
+        if (weekIdx === undefined) return;
+        const text = String(cells[c] ?? '').trim();
+        if (!text) return; // Clearing a phase is not an override
+        const phase = PHASE_NAMES.find(p => p.toLowerCase() === text.toLowerCase());
+        if (!phase) {
+          warnings.push(`Phases row ${sheetRow}, ${h}: "${text}" is not a phase, skipped.`);
+          return;
+        }
+        const before = currentPhases[projectId]?.[weekIdx] || null;
+        if (before === phase) return;
+        changes.push({
+          id: `p|${projectId}|${current.headers[weekIdx]}`,
+          projectId,
+          projectName: project.name,
+          type: 'phase',
+          date: current.headers[weekIdx],
+          before,
+          after: phase
+        });
+      });
+    });
+  }
+
+  return { error: null, changes, warnings };
+};
+
+/**
+ * Writes the selected changes into each project's overrides. Cells that were already edited keep
+ * their anchor; new ones use the configured default.
+ */
+export const applyScheduleChanges = (projects: ProjectInput[], changes: ScheduleChange[], config: GlobalConfig): ProjectInput[] => {
+  const byProject: Record<string, ScheduleChange[]> = {};
+  changes.forEach(c => {
+    if (!byProject[c.projectId]) byProject[c.projectId] = [];
+    byProject[c.projectId].push(c);
+  });
+
+  return projects.map(p => {
+    const projectChanges = byProject[p.id];
+    if (!projectChanges) return p;
+
+    return projectChanges.reduce((project, c) => {
+      const target = c.type === 'phase' ? { date: c.date } : { date: c.date, staffKey: `${c.staffTypeId}-${c.staffIndex}` };
+      return writeOverride(project, config, target, c.type === 'phase' ? c.after as PhaseName : Number(c.after)) || project;
+    }, p);
+  });
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CONFIG, INITIAL_PROJECTS } from '../constants';
+import { ProjectInput, StaffType } from '../types';
+import { applyStaffImport, buildProjectPreview, buildStaffPreview, ImportPreview, SheetTable } from './spreadsheetImport';
+
+const preview = (members: StaffType[]): ImportPreview<StaffType> => ({
+  items: members.map((value, i) => ({ row: i + 2, value })),
+  issues: [],
+  newSkills: []
+});
+
+// Mike Davis ('staff') is on the project and has manual hours in both override kinds
+const project: ProjectInput = {
+  ...INITIAL_PROJECTS[0],
+  overrides: {
+    staff: { 'staff-1': { '2026-01-05T00:00:00.000Z': 12 }, 'lead-1': { '2026-01-05T00:00:00.000Z': 8 } },
+    relativeStaff: { 'staff-1': { 'Fieldwork:0': 20 } }
+  }
+};
+
+const sarah = DEFAULT_CONFIG.staffTypes.find(s => s.id === 'lead')!;
+
+describe('applyStaffImport', () => {
+  it('removes replaced members from project assignments and overrides', () => {
+    const { projects, config } = applyStaffImport([project], DEFAULT_CONFIG, preview([{ ...sarah, id: 'imported-lead' }]), 'replace');
+
+    expect(config.staffTypes.map(s => s.id)).toEqual(['lead', 'placeholder']);
+    const assigned = projects[0].phasesConfig!.flatMap(ph => ph.staffAllocation.map(sa => sa.staffTypeId));
+    expect(assigned).not.toContain('staff');
+    expect(assigned).not.toContain('pm');
+    expect(assigned).toContain('lead');
+    expect(Object.keys(projects[0].overrides!.staff!)).toEqual(['lead-1']);
+    expect(projects[0].overrides!.relativeStaff).toEqual({});
+  });
+
+  it('leaves projects alone when merging', () => {
+    const { projects } = applyStaffImport([project], DEFAULT_CONFIG, preview([]), 'merge');
+    expect(projects[0]).toBe(project);
+  });
+});
+
+describe('team column', () => {
+  const sheet: SheetTable = {
+    name: 'Sheet1',
+    headers: ['Name', 'Budget', 'Team'],
+    rows: [['No team', 100, ''], ['With team', 100, 'it']]
+  };
+  const mapping = { name: 0, budgetHours: 1, maxHoursPerWeek: 1, team: 2 };
+
+  it('puts projects without a team in General', () => {
+    const { items, issues } = buildProjectPreview(sheet, mapping, DEFAULT_CONFIG);
+    expect(issues).toEqual([]);
+    expect(items.map(i => i.value.team)).toEqual(['General', 'IT']);
+  });
+
+  it('puts members without a team in General', () => {
+    const { items } = buildStaffPreview(sheet, mapping, DEFAULT_CONFIG);
+    expect(items.map(i => i.value.team)).toEqual(['General', 'IT']);
+  });
+});
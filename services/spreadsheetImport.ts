@@ -0,0 +1,411 @@
+import * as XLSX from 'xlsx';
+import { GlobalConfig, ProjectInput, StaffType, SkillLevel, AssignmentHistoryEntry } from '../types';
+import { TEAMS } from '../constants';
+import { getFirstMondayOfYear, toDateKey, removeStaffFromProjects } from './scheduleEngine';
+import { isPlaceholder } from './placeholders';
+import { addWeeks, isValid, parseISO } from 'date-fns';
+
+export type ImportKind = 'projects' | 'staff' | 'history';
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  hint?: string;
+  aliases: string[]; // Lower-case header names recognised when guessing the mapping
+}
+
+export interface SheetTable {
+  name: string;
+  headers: string[];
+  rows: any[][];
+}
+
+export interface RowIssue {
+  row: number; // 1-based spreadsheet row number, including the header row
+  level: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportPreview<T> {
+  items: { row: number; value: T }[];
+  issues: RowIssue[];
+  newSkills: string[]; // Skills referenced in the sheet that are not in the library yet
+}
+
+// Column index per field key; -1 means "not mapped"
+export type ColumnMapping = Record<string, number>;
+
+export const PROJECT_IMPORT_FIELDS: ImportField[] = [
+  { key: 'name', label: 'Project Name', required: true, aliases: ['name', 'project', 'project name', 'audit', 'audit name'] },
+  { key: 'budgetHours', label: 'Budget (Hours)', required: true, aliases: ['budget', 'budget hours', 'hours', 'total hours'] },
+  { key: 'team', label: 'Team', required: false, aliases: ['team', 'area', 'auditable area'] },
+  { key: 'startDate', label: 'Start Date', required: false, hint: 'A date, or a week number counted from the first Monday of the base year', aliases: ['start', 'start date', 'start week', 'start week offset'] },
+  { key: 'targetEndDate', label: 'Target End', required: false, aliases: ['target end', 'target end date', 'end date', 'end'] },
+  { key: 'requiredSkills', label: 'Required Skills', required: false, hint: 'Separated by ; or ,', aliases: ['skills', 'required skills'] },
+];
+
+export const STAFF_IMPORT_FIELDS: ImportField[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['name', 'staff', 'staff name', 'member', 'team member', 'employee'] },
+  { key: 'role', label: 'Role / Title', required: false, aliases: ['role', 'title', 'job title', 'position'] },
+  { key: 'maxHoursPerWeek', label: 'Max Hours / Week', required: false, aliases: ['max hours', 'max hours per week', 'hours per week', 'capacity', 'hrs/wk'] },
+  { key: 'team', label: 'Team', required: false, aliases: ['team'] },
+  { key: 'skills', label: 'Skill Levels', required: false, hint: 'e.g. "SQL: Advanced; Python/R: Beginner"', aliases: ['skills', 'skill levels'] },
+];
+
+export const HISTORY_IMPORT_FIELDS: ImportField[] = [
+  { key: 'entity', label: 'Auditable Entity', required: true, aliases: ['entity', 'auditable entity', 'project', 'audit', 'project name'] },
+  { key: 'member', label: 'Member', required: true, hint: 'Matched to team members by name', aliases: ['member', 'name', 'staff', 'staff name', 'auditor', 'employee'] },
+  { key: 'year', label: 'Year', required: true, aliases: ['year', 'plan year', 'fiscal year', 'fy'] },
+  { key: 'lead', label: 'Lead', required: false, hint: 'Yes / No; No when empty', aliases: ['lead', 'is lead', 'role'] },
+];
+
+const SKILL_LEVELS: SkillLevel[] = ['None', 'Beginner', 'Intermediate', 'Advanced'];
+
+const STAFF_COLORS = [
+  'bg-purple-100 text-purple-800',
+  'bg-blue-100 text-blue-800',
+  'bg-green-100 text-green-800',
+  'bg-amber-100 text-amber-800',
+  'bg-rose-100 text-rose-800',
+  'bg-cyan-100 text-cyan-800',
+  'bg-indigo-100 text-indigo-800'
+];
+
+/**
+ * Reads every sheet of an xlsx/xls/csv file. The first non-empty row of each sheet is taken as the header.
+ */
+export const readSpreadsheet = (data: ArrayBuffer): SheetTable[] => {
+  const wb = XLSX.read(data, { type: 'array', cellDates: true });
+  return wb.SheetNames.map(name => {
+    const aoa = XLSX.utils.sheet_to_json<any[]>(wb.Sheets[name], { header: 1, defval: '', raw: true });
+    const headerIdx = aoa.findIndex(r => r.some(c => String(c).trim() !== ''));
+    if (headerIdx === -1) return { name, headers: [], rows: [] };
+    return {
+      name,
+      headers: aoa[headerIdx].map(h => String(h).trim()),
+      rows: aoa.slice(headerIdx + 1)
+    };
+  });
+};
+
+export const guessColumnMapping = (headers: string[], fields: ImportField[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(h => h.toLowerCase().trim());
+  fields.forEach(field => {
+    mapping[field.key] = normalized.findIndex(h => h === field.label.toLowerCase() || field.aliases.includes(h));
+  });
+  return mapping;
+};
+
+const cellText = (row: any[], mapping: ColumnMapping, key: string): string => {
+  const idx = mapping[key];
+  if (idx === undefined || idx < 0) return '';
+  const v = row[idx];
+  if (v instanceof Date) return v.toISOString();
+  return v === undefined || v === null ? '' : String(v).trim();
+};
+
+const parseNumber = (text: string): number | null => {
+  if (text === '') return null;
+  const n = Number(text.replace(/,/g, ''));
+  return isNaN(n) ? null : n;
+};
+
+const isBlankRow = (row: any[]) => row.every(c => String(c ?? '').trim() === '');
+
+const matchTeam = (text: string) => TEAMS.find(t => t.toLowerCase() === text.toLowerCase());
+// Rows without a team go to the team the rest of the app assumes when none is set
+const DEFAULT_TEAM = 'General';
+
+// Matches skill names case-insensitively against the library, collecting unknown ones
+const resolveSkill = (name: string, config: GlobalConfig, newSkills: Set<string>): string => {
+  const known = config.skills.find(s => s.toLowerCase() === name.toLowerCase());
+  if (known) return known;
+  const pending = Array.from(newSkills).find(s => s.toLowerCase() === name.toLowerCase());
+  if (pending) return pending;
+  newSkills.add(name);
+  return name;
+};
+
+/**
+ * Converts a date cell into "yyyy-MM-dd". Plain numbers (old offset templates) count weeks
+ * from the first Monday of `year`; anything else is read as a date.
+ */
+const parseDateCell = (row: any[], mapping: ColumnMapping, key: string, year: number): { date: string | null } | { error: string } => {
+  const idx = mapping[key];
+  const raw = idx === undefined || idx < 0 ? '' : row[idx];
+  if (raw === '' || raw === null || raw === undefined) return { date: null };
+
+  if (typeof raw === 'number' || /^\d+$/.test(String(raw).trim())) {
+    return { date: toDateKey(addWeeks(getFirstMondayOfYear(year), Math.max(0, Math.floor(Number(raw))))) };
+  }
+
+  const date = raw instanceof Date ? raw : parseISO(String(raw).trim());
+  if (!isValid(date)) return { error: `"${raw}" is neither a week number nor a date (yyyy-MM-dd).` };
+  return { date: toDateKey(date) };
+};
+
+export const buildProjectPreview = (sheet: SheetTable, mapping: ColumnMapping, config: GlobalConfig): ImportPreview<ProjectInput> => {
+  const items: { row: number; value: ProjectInput }[] = [];
+  const issues: RowIssue[] = [];
+  const newSkills = new Set<string>();
+  const seenNames = new Set<string>();
+
+  sheet.rows.forEach((row, i) => {
+    if (isBlankRow(row)) return;
+    const rowNum = i + 2;
+    const errors: string[] = [];
+
+    const name = cellText(row, mapping, 'name');
+    if (!name) errors.push('Project name is empty.');
+    else if (seenNames.has(name.toLowerCase())) errors.push(`Duplicate project "${name}" in sheet.`);
+
+    const budget = parseNumber(cellText(row, mapping, 'budgetHours'));
+    if (budget === null || budget <= 0) errors.push(`Budget "${cellText(row, mapping, 'budgetHours')}" must be a positive number.`);
+
+    const teamText = cellText(row, mapping, 'team');
+    const team = teamText ? matchTeam(teamText) : DEFAULT_TEAM;
+    if (!team) errors.push(`Unknown team "${teamText}". Expected one of: ${TEAMS.join(', ')}.`);
+
+    const start = parseDateCell(row, mapping, 'startDate', config.year);
+    if ('error' in start) errors.push(`Start ${start.error}`);
+    const targetEnd = parseDateCell(row, mapping, 'targetEndDate', config.year);
+    if ('error' in targetEnd) errors.push(`Target end ${targetEnd.error}`);
+    const startDate = ('date' in start && start.date) || toDateKey(getFirstMondayOfYear(config.year));
+    const targetEndDate = ('date' in targetEnd && targetEnd.date) || undefined;
+    if (targetEndDate && targetEndDate < startDate) errors.push(`Target end ${targetEndDate} is before the start ${startDate}.`);
+
+    if (errors.length > 0) {
+      errors.forEach(message => issues.push({ row: rowNum, level: 'error', message }));
+      return;
+    }
+
+    const skillsText = cellText(row, mapping, 'requiredSkills');
+    const requiredSkills = skillsText
+      ? Array.from(new Set(skillsText.split(/[;,]/).map(s => s.trim()).filter(Boolean).map(s => resolveSkill(s, config, newSkills))))
+      : [];
+
+    seenNames.add(name.toLowerCase());
+    items.push({
+      row: rowNum,
+      value: {
+        id: Math.random().toString(36).substr(2, 9),
+        name,
+        budgetHours: budget!,
+        startDate,
+        targetEndDate,
+        locked: false,
+        phasesConfig: JSON.parse(JSON.stringify(config.phases)),
+        team,
+        requiredSkills
+      }
+    });
+  });
+
+  newSkills.forEach(skill => issues.push({ row: 0, level: 'warning', message: `Skill "${skill}" will be added to the skills library.` }));
+  return { items, issues, newSkills: Array.from(newSkills) };
+};
+
+export const buildStaffPreview = (sheet: SheetTable, mapping: ColumnMapping, config: GlobalConfig): ImportPreview<StaffType> => {
+  const items: { row: number; value: StaffType }[] = [];
+  const issues: RowIssue[] = [];
+  const newSkills = new Set<string>();
+  const seenNames = new Set<string>();
+  const idBase = Date.now();
+
+  sheet.rows.forEach((row, i) => {
+    if (isBlankRow(row)) return;
+    const rowNum = i + 2;
+    const errors: string[] = [];
+
+    const name = cellText(row, mapping, 'name');
+    if (!name) errors.push('Name is empty.');
+    else if (seenNames.has(name.toLowerCase())) errors.push(`Duplicate member "${name}" in sheet.`);
+
+    const hoursText = cellText(row, mapping, 'maxHoursPerWeek');
+    const hours = hoursText ? parseNumber(hoursText) : 40;
+    if (hours === null || hours < 0) errors.push(`Max hours "${hoursText}" must be a non-negative number.`);
+
+    const teamText = cellText(row, mapping, 'team');
+    const team = teamText ? matchTeam(teamText) : DEFAULT_TEAM;
+    if (!team) errors.push(`Unknown team "${teamText}". Expected one of: ${TEAMS.join(', ')}.`);
+
+    if (errors.length > 0) {
+      errors.forEach(message => issues.push({ row: rowNum, level: 'error', message }));
+      return;
+    }
+
+    const skills: Record<string, SkillLevel> = {};
+    const skillsText = cellText(row, mapping, 'skills');
+    skillsText.split(/[;,]/).map(s => s.trim()).filter(Boolean).forEach(entry => {
+      const [skillName, levelText = ''] = entry.split(':').map(s => s.trim());
+      const level = SKILL_LEVELS.find(l => l.toLowerCase() === levelText.toLowerCase());
+      if (!level) {
+        issues.push({ row: rowNum, level: 'warning', message: `Skill "${entry}" has no valid level (${SKILL_LEVELS.join(', ')}) and was skipped.` });
+        return;
+      }
+      if (level !== 'None') skills[resolveSkill(skillName, config, newSkills)] = level;
+    });
+
+    seenNames.add(name.toLowerCase());
+    items.push({
+      row: rowNum,
+      value: {
+        id: `role-${idBase}-${i}`,
+        name,
+        role: cellText(row, mapping, 'role') || 'Staff Auditor',
+        maxHoursPerWeek: hours!,
+        color: STAFF_COLORS[(config.staffTypes.length + items.length) % STAFF_COLORS.length],
+        team,
+        skills
+      }
+    });
+  });
+
+  newSkills.forEach(skill => issues.push({ row: 0, level: 'warning', message: `Skill "${skill}" will be added to the skills library.` }));
+  return { items, issues, newSkills: Array.from(newSkills) };
+};
+
+const LEAD_VALUES = ['yes', 'y', 'true', '1', 'x', 'lead'];
+
+export const buildHistoryPreview = (sheet: SheetTable, mapping: ColumnMapping, config: GlobalConfig): ImportPreview<AssignmentHistoryEntry> => {
+  const items: { row: number; value: AssignmentHistoryEntry }[] = [];
+  const issues: RowIssue[] = [];
+  const seen = new Set<string>();
+  const idBase = Date.now();
+
+  sheet.rows.forEach((row, i) => {
+    if (isBlankRow(row)) return;
+    const rowNum = i + 2;
+    const errors: string[] = [];
+
+    const entity = cellText(row, mapping, 'entity');
+    if (!entity) errors.push('Auditable entity is empty.');
+
+    const memberText = cellText(row, mapping, 'member');
+    const member = config.staffTypes.find(s => !isPlaceholder(s) && s.name.toLowerCase() === memberText.toLowerCase());
+    if (!memberText) errors.push('Member is empty.');
+    else if (!member) errors.push(`Unknown member "${memberText}". Add them under Team Members first.`);
+
+    const year = parseNumber(cellText(row, mapping, 'year'));
+    if (year === null || !Number.isInteger(year) || year < 1900) errors.push(`Year "${cellText(row, mapping, 'year')}" must be a four-digit year.`);
+
+    if (errors.length > 0) {
+      errors.forEach(message => issues.push({ row: rowNum, level: 'error', message }));
+      return;
+    }
+
+    const key = `${entity.toLowerCase()}|${member!.id}|${year}`;
+    if (seen.has(key)) {
+      issues.push({ row: rowNum, level: 'warning', message: `${member!.name} on ${entity} in ${year} is listed twice; the first row is kept.` });
+      return;
+    }
+    seen.add(key);
+    items.push({
+      row: rowNum,
+      value: {
+        id: `hist-${idBase}-${i}`,
+        entity,
+        staffTypeId: member!.id,
+        year: year!,
+        lead: LEAD_VALUES.includes(cellText(row, mapping, 'lead').toLowerCase())
+      }
+    });
+  });
+
+  return { items, issues, newSkills: [] };
+};
+
+/**
+ * Merge replaces entries for the same entity, member and year and keeps the rest. Replace
+ * discards the recorded history.
+ */
+export const applyHistoryImport = (config: GlobalConfig, preview: ImportPreview<AssignmentHistoryEntry>, mode: ImportMode): GlobalConfig => {
+  const imported = preview.items.map(i => i.value);
+  if (mode === 'replace') return { ...config, assignmentHistory: imported };
+
+  const keyOf = (h: AssignmentHistoryEntry) => `${h.entity.toLowerCase()}|${h.staffTypeId}|${h.year}`;
+  const importedKeys = new Set(imported.map(keyOf));
+  const kept = (config.assignmentHistory || []).filter(h => !importedKeys.has(keyOf(h)));
+  return { ...config, assignmentHistory: [...kept, ...imported] };
+};
+
+const addSkillsToLibrary = (config: GlobalConfig, newSkills: string[]): GlobalConfig => {
+  const missing = newSkills.filter(s => !config.skills.includes(s));
+  if (missing.length === 0) return config;
+  return { ...config, skills: [...config.skills, ...missing].sort() };
+};
+
+/**
+ * Merge updates projects with the same name (keeping their phases, overrides and lock) and appends the rest.
+ * Replace discards the current project list.
+ */
+export const applyProjectImport = (
+  projects: ProjectInput[],
+  config: GlobalConfig,
+  preview: ImportPreview<ProjectInput>,
+  mode: ImportMode
+): { projects: ProjectInput[]; config: GlobalConfig } => {
+  const imported = preview.items.map(i => i.value);
+  const nextConfig = addSkillsToLibrary(config, preview.newSkills);
+
+  if (mode === 'replace') return { projects: imported, config: nextConfig };
+
+  const byName = new Map(imported.map(p => [p.name.toLowerCase(), p]));
+  const merged = projects.map(p => {
+    const match = byName.get(p.name.toLowerCase());
+    if (!match) return p;
+    byName.delete(p.name.toLowerCase());
+    return {
+      ...p,
+      budgetHours: match.budgetHours,
+      startDate: match.startDate,
+      targetEndDate: match.targetEndDate,
+      team: match.team,
+      requiredSkills: match.requiredSkills
+    };
+  });
+  return { projects: [...merged, ...byName.values()], config: nextConfig };
+};
+
+/**
+ * Merge updates members with the same name and appends the rest. Replace removes every
+ * member not in the sheet (except placeholders), the same way deleting a member does,
+ * including their project assignments and manual hours.
+ */
+export const applyStaffImport = (
+  projects: ProjectInput[],
+  config: GlobalConfig,
+  preview: ImportPreview<StaffType>,
+  mode: ImportMode
+): { projects: ProjectInput[]; config: GlobalConfig } => {
+  const imported = preview.items.map(i => i.value);
+  const byName = new Map(imported.map(s => [s.name.toLowerCase(), s]));
+
+  let staffTypes: StaffType[] = [];
+  config.staffTypes.forEach(s => {
+    const match = byName.get(s.name.toLowerCase());
+    if (match) {
+      byName.delete(s.name.toLowerCase());
+      staffTypes.push({ ...s, role: match.role, maxHoursPerWeek: match.maxHoursPerWeek, team: match.team, skills: { ...s.skills, ...match.skills } });
+    } else if (mode === 'merge' || isPlaceholder(s)) {
+      staffTypes.push(s);
+    }
+  });
+  const added = Array.from(byName.values());
+  staffTypes = [...staffTypes, ...added];
+
+  const keptIds = new Set(staffTypes.map(s => s.id));
+  const phases = config.phases.map(p => ({
+    ...p,
+    staffAllocation: [
+      ...p.staffAllocation.filter(sa => keptIds.has(sa.staffTypeId)),
+      ...added.map(s => ({ staffTypeId: s.id, percentage: 0 }))
+    ]
+  }));
+
+  const removedIds = new Set(config.staffTypes.filter(s => !keptIds.has(s.id)).map(s => s.id));
+  return { projects: removeStaffFromProjects(projects, removedIds), config: addSkillsToLibrary({ ...config, staffTypes, phases }, preview.newSkills) };
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CONFIG, INITIAL_PROJECTS } from '../constants';
+import { ProjectInput } from '../types';
+import { getDateMarkers } from './timelineMarkers';
+import { getPlanningWeeks, getProjectSpans } from './scheduleEngine';
+
+// Financial Controls (Finance) waits for the Cybersecurity Review (IT) to finish
+const [cyber, controls] = INITIAL_PROJECTS;
+const plan: ProjectInput[] = [
+  cyber,
+  { ...controls, dependencies: [{ predecessorId: cyber.id, type: 'finish-to-start', lagWeeks: 0 }] }
+];
+
+describe('getDateMarkers', () => {
+  it('marks a dependency on a project outside the team filter', () => {
+    // The schedule filtered to Finance only shows Financial Controls
+    const financeOnly = plan.filter(p => p.team === 'Finance');
+    expect(financeOnly.map(p => p.id)).toEqual([controls.id]);
+    expect(getDateMarkers(financeOnly, DEFAULT_CONFIG)[controls.id]).toBeUndefined();
+
+    const markers = getDateMarkers(plan, DEFAULT_CONFIG);
+    const week = getPlanningWeeks(DEFAULT_CONFIG).headers[getProjectSpans(plan, DEFAULT_CONFIG)[cyber.id].end];
+    expect(markers[controls.id]).toEqual({
+      [week]: [{ text: `Earliest start: Finish → Start after ${cyber.name}`, violated: true }]
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { GlobalConfig, ProjectInput } from '../types';
+import { getPlanningWeeks, getProjectSpans, getConstraintViolations, getWeekIndex } from './scheduleEngine';
+import { DEPENDENCY_LABELS, getEarliestStart } from './dependencies';
+import { MILESTONE_EDGE_LABELS } from './projectConstraints';
+
+/**
+ * Markers drawn on project rows of the schedule: the earliest start each dependency allows,
+ * plus each project's date window and milestones.
+ */
+
+export interface DateMarker {
+  text: string;
+  violated: boolean; // The plan misses this date
+}
+
+/**
+ * Markers keyed by project id and week header. Takes the whole plan, not just the rows on screen,
+ * so a dependency on a project outside the current team filter still gets its marker.
+ */
+export const getDateMarkers = (projects: ProjectInput[], config: GlobalConfig): Record<string, Record<string, DateMarker[]>> => {
+  const markers: Record<string, Record<string, DateMarker[]>> = {};
+  const hasDates = projects.some(p => p.earliestStart || p.latestFinish || (p.milestones && p.milestones.length > 0));
+  if (!hasDates && !projects.some(p => p.dependencies && p.dependencies.length > 0)) return markers;
+
+  const weeks = getPlanningWeeks(config);
+  const { headers } = weeks;
+  const spans = getProjectSpans(projects, config);
+  const violations = hasDates ? getConstraintViolations(projects, config) : [];
+  const addMarker = (projectId: string, date: string | undefined, text: string, violated: boolean) => {
+    if (!date) return;
+    if (!markers[projectId]) markers[projectId] = {};
+    if (!markers[projectId][date]) markers[projectId][date] = [];
+    markers[projectId][date].push({ text, violated });
+  };
+  const isViolated = (projectId: string, kind: string, date: string) =>
+    violations.some(v => v.projectId === projectId && v.kind === kind && v.date === date);
+
+  projects.forEach(project => {
+    if (project.earliestStart) {
+      addMarker(project.id, headers[getWeekIndex(project.earliestStart, weeks)], `Earliest start: ${project.earliestStart}`,
+        isViolated(project.id, 'earliest-start', project.earliestStart));
+    }
+    if (project.latestFinish) {
+      addMarker(project.id, headers[getWeekIndex(project.latestFinish, weeks)], `Report due: ${project.latestFinish}`,
+        isViolated(project.id, 'latest-finish', project.latestFinish));
+    }
+    (project.milestones || []).forEach(m => {
+      addMarker(project.id, headers[getWeekIndex(m.date, weeks)], `${m.name}: ${m.phase} ${MILESTONE_EDGE_LABELS[m.edge]} ${m.date}`,
+        isViolated(project.id, 'milestone', m.date));
+    });
+
+    (project.dependencies || []).forEach(dep => {
+      const predecessor = projects.find(p => p.id === dep.predecessorId);
+      if (!predecessor) return;
+      const earliest = getEarliestStart(dep, spans[predecessor.id]);
+      addMarker(project.id, headers[earliest],
+        `Earliest start: ${DEPENDENCY_LABELS[dep.type]} after ${predecessor.name}${dep.lagWeeks ? ` +${dep.lagWeeks}w` : ''}`,
+        spans[project.id].start < earliest);
+    });
+  });
+  return markers;
+};
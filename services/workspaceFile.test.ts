@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DEFAULT_CONFIG, INITIAL_PROJECTS } from '../constants';
+import { GlobalConfig, PhaseName, ProjectInput, ProjectOverrides } from '../types';
+import { readWorkspaceDocument, WORKSPACE_FILE_FORMAT } from './workspaceFile';
+import { generateSchedule, getDefaultOverrideAnchor, getPlanningWeeks, writeOverride } from './scheduleEngine';
+
+// Rolling horizon: which weeks it covers depends on the day the workspace is opened
+const config: GlobalConfig = { ...DEFAULT_CONFIG, horizon: { mode: 'rolling', months: 6 } };
+
+const TODAY = new Date(2026, 2, 2); // Monday
+const insideHorizon = new Date(2026, 2, 16).toISOString();
+const beforeHorizon = new Date(2025, 5, 2).toISOString();
+const afterHorizon = new Date(2027, 5, 7).toISOString();
+
+const overrides: ProjectOverrides = {
+  phase: { [insideHorizon]: PhaseName.PLANNING, [beforeHorizon]: PhaseName.REPORTING, [afterHorizon]: PhaseName.FIELDWORK },
+  staff: { 'lead-1': { [insideHorizon]: 30, [beforeHorizon]: 12, [afterHorizon]: 8 } }
+};
+
+const project: ProjectInput = { ...INITIAL_PROJECTS[0], startDate: '2026-03-02', overrides };
+
+const versionThree = () => ({
+  format: WORKSPACE_FILE_FORMAT,
+  version: 3,
+  config,
+  projects: [project]
+});
+
+const migrate = () => {
+  const result = readWorkspaceDocument(versionThree());
+  if ('errors' in result) throw new Error(result.errors.join(' '));
+  return result;
+};
+
+describe('workspace migration to schema 4', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(TODAY);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps dated overrides on their dates, inside and outside the horizon', () => {
+    const { projects, migratedFrom } = migrate();
+    expect(migratedFrom).toBe(3);
+    expect(projects[0].overrides).toEqual(overrides);
+    expect(projects[0].overrides?.relativePhase).toBeUndefined();
+    expect(projects[0].overrides?.relativeStaff).toBeUndefined();
+  });
+
+  it('does not depend on the day it runs', () => {
+    const first = migrate();
+    vi.setSystemTime(new Date(2026, 8, 14));
+    expect(migrate()).toEqual(first);
+  });
+
+  it('leaves the default for new edits on the date', () => {
+    const { config: migrated, projects } = migrate();
+    expect(migrated.overrideAnchor).toBeUndefined();
+    expect(getDefaultOverrideAnchor(migrated)).toBe('date');
+
+    const edited = writeOverride(projects[0], migrated, { date: insideHorizon, staffKey: 'staff-1' }, 7)!;
+    expect(edited.overrides?.staff?.['staff-1']).toEqual({ [insideHorizon]: 7 });
+    expect(edited.overrides?.relativeStaff?.['staff-1'] ?? {}).toEqual({});
+  });
+
+  it('keeps migrated overrides in place when the project moves', () => {
+    const { config: migrated, projects } = migrate();
+    const moved = { ...projects[0], startDate: '2026-03-30' };
+    const week = getPlanningWeeks(migrated).headers.indexOf(insideHorizon);
+    const row = generateSchedule([moved], migrated).rows.find(r => r.staffTypeId === 'lead')!;
+    expect(row.cells[week]).toMatchObject({ hours: 30, isOverride: true, overrideAnchor: 'date' });
+  });
+});
+
+describe('workspace validation', () => {
+  const current = (projects: ProjectInput[]) => ({
+    format: WORKSPACE_FILE_FORMAT,
+    version: 4,
+    config: DEFAULT_CONFIG,
+    projects
+  });
+  const errorsOf = (projects: ProjectInput[]) => {
+    const result = readWorkspaceDocument(current(projects));
+    return 'errors' in result ? result.errors : [];
+  };
+
+  it('accepts the default workspace', () => {
+    expect(errorsOf(INITIAL_PROJECTS)).toEqual([]);
+  });
+
+  it('rejects dated override keys that are not dates', () => {
+    const edited = { ...project, overrides: { phase: { 'week 3': PhaseName.PLANNING }, staff: { 'lead-1': { [insideHorizon]: 4, '2026-13-40': 8 } } } };
+    expect(errorsOf([edited])).toEqual([
+      'projects[0].overrides.phase["week 3"] is not a date.',
+      'projects[0].overrides.staff["lead-1"] must map dates to hours.'
+    ]);
+  });
+
+  it('rejects dependency cycles', () => {
+    const [a, b] = INITIAL_PROJECTS;
+    const errors = errorsOf([
+      { ...a, dependencies: [{ predecessorId: b.id, type: 'finish-to-start', lagWeeks: 0 }] },
+      { ...b, dependencies: [{ predecessorId: a.id, type: 'start-to-start', lagWeeks: 1 }] }
+    ]);
+    expect(errors).toEqual([`Project dependencies form a cycle: ${a.name} → ${b.name}.`]);
+  });
+
+  it('rejects allocations to members that do not exist', () => {
+    const [first] = INITIAL_PROJECTS;
+    const phasesConfig = first.phasesConfig!.map((ph, i) => i === 0
+      ? { ...ph, staffAllocation: [...ph.staffAllocation, { staffTypeId: 'gone', percentage: 10 }] }
+      : ph);
+    const errors = errorsOf([{ ...first, phasesConfig }]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^projects\[0\]\.phasesConfig\[0\]\.staffAllocation\[\d+\]\.staffTypeId "gone" is not a known team member or placeholder\.$/);
+  });
+});
@@ -0,0 +1,395 @@
+import { GlobalConfig, ProjectInput, PhaseName } from '../types';
+import { DEFAULT_HORIZON } from '../constants';
+import { getFirstMondayOfYear, toDateKey } from './scheduleEngine';
+import { SKILL_LEVEL_ORDER } from './placeholders';
+import { findDependencyCycle } from './dependencies';
+import { addWeeks, isValid, parseISO } from 'date-fns';
+
+/**
+ * Versioned JSON workspace format used for file export/import and local persistence.
+ *
+ * Bump WORKSPACE_SCHEMA_VERSION whenever `GlobalConfig` or `ProjectInput` change shape
+ * and register a migration from the previous version in MIGRATIONS.
+ */
+export const WORKSPACE_FILE_FORMAT = 'audit-scheduler-workspace';
+export const WORKSPACE_SCHEMA_VERSION = 4;
+
+export interface WorkspaceFile {
+  format: typeof WORKSPACE_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  config: GlobalConfig;
+  projects: ProjectInput[];
+}
+
+export type WorkspaceImportResult =
+  | { ok: true; config: GlobalConfig; projects: ProjectInput[]; migratedFrom: number | null }
+  | { ok: false; errors: string[] };
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1.
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // Version 0: unversioned { config, projects } saved before the format was introduced
+  0: (data) => ({ ...data, format: WORKSPACE_FILE_FORMAT, version: 1 }),
+  // Version 1: planning horizon added; older workspaces keep planning a single calendar year
+  1: (data) => ({
+    ...data,
+    version: 2,
+    config: isObject(data.config) ? { ...data.config, horizon: data.config.horizon ?? { ...DEFAULT_HORIZON } } : data.config
+  }),
+  // Version 2: week offsets from the first Monday of config.year replaced by calendar start dates
+  2: (data) => {
+    const year = isObject(data.config) && isNumber(data.config.year) ? data.config.year : new Date().getFullYear();
+    const projects = Array.isArray(data.projects) ? data.projects.map((p: any) => {
+      if (!isObject(p) || !isNumber(p.startWeekOffset)) return p;
+      const { startWeekOffset, ...rest } = p;
+      return { ...rest, startDate: toDateKey(addWeeks(getFirstMondayOfYear(year), startWeekOffset)) };
+    }) : data.projects;
+    return { ...data, version: 3, projects };
+  },
+  // Version 3: overrides can also be stored relative to the project. Existing overrides keep their
+  // meaning and stay on their dates; the user can move them over per cell in the schedule or per
+  // project in the project list (makeOverridesRelative)
+  3: (data) => ({ ...data, version: 4 }),
+};
+
+const PHASE_NAMES = Object.values(PhaseName) as string[];
+const HORIZON_MODES = ['year', 'months', 'rolling'];
+const OVERRIDE_ANCHORS = ['date', 'project'];
+const MAX_REPORTED_ERRORS = 20;
+
+const isObject = (v: any) => v !== null && typeof v === 'object' && !Array.isArray(v);
+const isNumber = (v: any) => typeof v === 'number' && !isNaN(v);
+const isDateKey = (v: any) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v) && isValid(parseISO(v));
+// Dated override keys are the ISO timestamps of the week headers
+const isOverrideDate = (v: string) => /^\d{4}-\d{2}-\d{2}(T|$)/.test(v) && isValid(parseISO(v));
+
+// staffTypeIds: the members and placeholders allocations may name, when the staff list itself is valid
+const validatePhases = (phases: any, path: string, errors: string[], staffTypeIds?: Set<string>) => {
+  if (!Array.isArray(phases)) {
+    errors.push(`${path} must be a list of phases.`);
+    return;
+  }
+  phases.forEach((phase: any, i: number) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(phase)) {
+      errors.push(`${p} must be an object.`);
+      return;
+    }
+    if (!PHASE_NAMES.includes(phase.name)) errors.push(`${p}.name "${phase.name}" is not a known phase.`);
+    if (!isNumber(phase.percentBudget)) errors.push(`${p}.percentBudget must be a number.`);
+    if (!isNumber(phase.minWeeks)) errors.push(`${p}.minWeeks must be a number.`);
+    if (!isNumber(phase.maxWeeks)) errors.push(`${p}.maxWeeks must be a number.`);
+    if (phase.weeks !== undefined && !isNumber(phase.weeks)) errors.push(`${p}.weeks must be a number.`);
+    if (!Array.isArray(phase.staffAllocation)) {
+      errors.push(`${p}.staffAllocation must be a list.`);
+      return;
+    }
+    phase.staffAllocation.forEach((sa: any, j: number) => {
+      if (!isObject(sa) || typeof sa.staffTypeId !== 'string' || !isNumber(sa.percentage)) {
+        errors.push(`${p}.staffAllocation[${j}] must have a staffTypeId and a numeric percentage.`);
+      } else if (staffTypeIds && !staffTypeIds.has(sa.staffTypeId)) {
+        errors.push(`${p}.staffAllocation[${j}].staffTypeId "${sa.staffTypeId}" is not a known team member or placeholder.`);
+      }
+    });
+  });
+};
+
+const validateConfig = (config: any, errors: string[]) => {
+  if (!isObject(config)) {
+    errors.push('config is missing.');
+    return;
+  }
+  if (!isNumber(config.year)) errors.push('config.year must be a number.');
+  if (config.horizon !== undefined) {
+    if (!isObject(config.horizon) || !HORIZON_MODES.includes(config.horizon.mode)) {
+      errors.push(`config.horizon.mode must be one of ${HORIZON_MODES.join(', ')}.`);
+    } else if (!isNumber(config.horizon.months) || config.horizon.months < 1) {
+      errors.push('config.horizon.months must be a positive number.');
+    }
+  }
+  validatePhases(config.phases, 'config.phases', errors, getStaffTypeIds(config));
+
+  if (!Array.isArray(config.staffTypes)) {
+    errors.push('config.staffTypes must be a list.');
+  } else {
+    const ids = new Set<string>();
+    config.staffTypes.forEach((st: any, i: number) => {
+      const p = `config.staffTypes[${i}]`;
+      if (!isObject(st)) {
+        errors.push(`${p} must be an object.`);
+        return;
+      }
+      if (typeof st.id !== 'string') errors.push(`${p}.id must be a string.`);
+      else if (ids.has(st.id)) errors.push(`${p}.id "${st.id}" is duplicated.`);
+      else ids.add(st.id);
+      if (typeof st.name !== 'string') errors.push(`${p}.name must be a string.`);
+      if (!isNumber(st.maxHoursPerWeek)) errors.push(`${p}.maxHoursPerWeek must be a number.`);
+      if (st.skills !== undefined && !isObject(st.skills)) errors.push(`${p}.skills must be an object of skill levels.`);
+      if (st.availability !== undefined) {
+        if (!Array.isArray(st.availability)) {
+          errors.push(`${p}.availability must be a list.`);
+        } else {
+          st.availability.forEach((a: any, j: number) => {
+            if (!isObject(a) || !isDateKey(a.startDate) || !isDateKey(a.endDate) || !isNumber(a.hoursPerWeek)) {
+              errors.push(`${p}.availability[${j}] must have startDate, endDate (yyyy-MM-dd) and a numeric hoursPerWeek.`);
+            }
+          });
+        }
+      }
+      if (st.placeholder !== undefined) {
+        const ph = st.placeholder;
+        if (!isObject(ph) || typeof st.role !== 'string'
+          || (ph.skill !== undefined && typeof ph.skill !== 'string')
+          || (ph.minLevel !== undefined && !SKILL_LEVEL_ORDER.includes(ph.minLevel))) {
+          errors.push(`${p}.placeholder must be an object with an optional skill and minLevel (${SKILL_LEVEL_ORDER.join(', ')}), on a staff type with a role.`);
+        }
+      }
+      if (st.exclusions !== undefined) {
+        if (!Array.isArray(st.exclusions)) {
+          errors.push(`${p}.exclusions must be a list.`);
+        } else {
+          st.exclusions.forEach((e: any, j: number) => {
+            if (!isObject(e) || typeof e.reason !== 'string'
+              || (e.projectId !== undefined && typeof e.projectId !== 'string')
+              || (e.team !== undefined && typeof e.team !== 'string')
+              || (e.startDate !== undefined && !isDateKey(e.startDate))
+              || (e.endDate !== undefined && !isDateKey(e.endDate))) {
+              errors.push(`${p}.exclusions[${j}] must have a reason and optional projectId, team, startDate and endDate (yyyy-MM-dd).`);
+            }
+          });
+        }
+      }
+    });
+  }
+
+  if (config.holidayCalendars !== undefined) {
+    if (!Array.isArray(config.holidayCalendars)) {
+      errors.push('config.holidayCalendars must be a list.');
+    } else {
+      config.holidayCalendars.forEach((cal: any, i: number) => {
+        const p = `config.holidayCalendars[${i}]`;
+        if (!isObject(cal) || typeof cal.id !== 'string' || !['organization', 'team', 'location'].includes(cal.scopeType)) {
+          errors.push(`${p} must have an id and a scopeType of organization, team or location.`);
+        } else if (!Array.isArray(cal.holidays) || cal.holidays.some((h: any) => !isObject(h) || !isDateKey(h.date))) {
+          errors.push(`${p}.holidays must be a list of { date: yyyy-MM-dd, name }.`);
+        }
+      });
+    }
+  }
+  if (config.hoursGranularity !== undefined && (!isNumber(config.hoursGranularity) || config.hoursGranularity <= 0)) {
+    errors.push('config.hoursGranularity must be a positive number.');
+  }
+  if (config.overrideAnchor !== undefined && !OVERRIDE_ANCHORS.includes(config.overrideAnchor)) {
+    errors.push('config.overrideAnchor must be date or project.');
+  }
+  if (config.scoringProfile !== undefined) {
+    const profile = config.scoringProfile;
+    const weights = isObject(profile) ? [profile.teamMatch, profile.overtimePenalty, profile.utilizationReward, profile.memberOverload, profile.loadSmoothing] : [];
+    if (!isObject(profile) || typeof profile.name !== 'string' || weights.some((w: any) => !isNumber(w)) || !isObject(profile.skillLevels)) {
+      errors.push('config.scoringProfile must have a name, numeric weights and skillLevels.');
+    }
+  }
+  if (config.optimizationRuns !== undefined) {
+    if (!Array.isArray(config.optimizationRuns) || config.optimizationRuns.some((r: any) => !isObject(r) || !isNumber(r.seed) || !isNumber(r.iterations)
+      || (r.iterationsRun !== undefined && !isNumber(r.iterationsRun)))) {
+      errors.push('config.optimizationRuns must be a list of runs with a numeric seed, iterations and optional iterationsRun.');
+    }
+  }
+  if (config.assignmentHistory !== undefined) {
+    if (!Array.isArray(config.assignmentHistory) || config.assignmentHistory.some((h: any) =>
+      !isObject(h) || typeof h.entity !== 'string' || typeof h.staffTypeId !== 'string' || !isNumber(h.year) || typeof h.lead !== 'boolean')) {
+      errors.push('config.assignmentHistory must be a list of entries with an entity, staffTypeId, numeric year and lead flag.');
+    }
+  }
+  if (config.rotationRule !== undefined) {
+    const rule = config.rotationRule;
+    if (!isObject(rule) || !isNumber(rule.maxConsecutiveYears) || rule.maxConsecutiveYears < 1 || !['penalize', 'forbid'].includes(rule.enforcement)
+      || !isNumber(rule.penalty) || typeof rule.leadsOnly !== 'boolean') {
+      errors.push('config.rotationRule must have maxConsecutiveYears of at least 1, an enforcement of penalize or forbid, a numeric penalty and a leadsOnly flag.');
+    }
+  }
+  if (!Array.isArray(config.skills) || config.skills.some((s: any) => typeof s !== 'string')) {
+    errors.push('config.skills must be a list of strings.');
+  }
+};
+
+// Ids of the configured members and placeholders, or undefined when the staff list is malformed
+const getStaffTypeIds = (config: any): Set<string> | undefined => {
+  if (!isObject(config) || !Array.isArray(config.staffTypes)) return undefined;
+  if (config.staffTypes.some((st: any) => !isObject(st) || typeof st.id !== 'string')) return undefined;
+  return new Set(config.staffTypes.map((st: any) => st.id));
+};
+
+// Relative override keys are "PhaseName:week" with a zero-based week
+const isRelativeWeek = (key: string) => {
+  const splitAt = key.lastIndexOf(':');
+  return PHASE_NAMES.includes(key.slice(0, splitAt)) && /^\d+$/.test(key.slice(splitAt + 1));
+};
+
+const validateOverrides = (overrides: any, path: string, errors: string[]) => {
+  if (overrides === undefined) return;
+  if (!isObject(overrides)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+  const validatePhaseMap = (field: string, keyName: string, isKey: (key: string) => boolean) => {
+    if (overrides[field] === undefined) return;
+    if (!isObject(overrides[field])) {
+      errors.push(`${path}.${field} must be an object.`);
+      return;
+    }
+    Object.entries(overrides[field]).forEach(([key, phase]) => {
+      if (!isKey(key)) errors.push(`${path}.${field}["${key}"] is not a ${keyName}.`);
+      if (!PHASE_NAMES.includes(phase as string)) errors.push(`${path}.${field}["${key}"] "${phase}" is not a known phase.`);
+    });
+  };
+  const validateStaffMap = (field: string, keyName: string, isKey: (key: string) => boolean) => {
+    if (overrides[field] === undefined) return;
+    if (!isObject(overrides[field])) {
+      errors.push(`${path}.${field} must be an object.`);
+      return;
+    }
+    Object.entries(overrides[field]).forEach(([key, weeks]) => {
+      if (!isObject(weeks) || Object.entries(weeks as object).some(([week, h]) => !isKey(week) || !isNumber(h))) {
+        errors.push(`${path}.${field}["${key}"] must map ${keyName}s to hours.`);
+      }
+    });
+  };
+  validatePhaseMap('phase', 'date', isOverrideDate);
+  validateStaffMap('staff', 'date', isOverrideDate);
+  validatePhaseMap('relativePhase', 'phase week ("Phase:week")', isRelativeWeek);
+  validateStaffMap('relativeStaff', 'phase week ("Phase:week")', isRelativeWeek);
+};
+
+const validateProjects = (projects: any, errors: string[], staffTypeIds?: Set<string>) => {
+  if (!Array.isArray(projects)) {
+    errors.push('projects must be a list.');
+    return;
+  }
+  const ids = new Set<string>();
+  projects.forEach((project: any, i: number) => {
+    const p = `projects[${i}]`;
+    if (!isObject(project)) {
+      errors.push(`${p} must be an object.`);
+      return;
+    }
+    if (typeof project.id !== 'string') errors.push(`${p}.id must be a string.`);
+    else if (ids.has(project.id)) errors.push(`${p}.id "${project.id}" is duplicated.`);
+    else ids.add(project.id);
+    if (typeof project.name !== 'string') errors.push(`${p}.name must be a string.`);
+    if (!isNumber(project.budgetHours)) errors.push(`${p}.budgetHours must be a number.`);
+    if (!isDateKey(project.startDate)) errors.push(`${p}.startDate must be a date (yyyy-MM-dd).`);
+    if (project.targetEndDate !== undefined && !isDateKey(project.targetEndDate)) errors.push(`${p}.targetEndDate must be a date (yyyy-MM-dd).`);
+    if (project.entity !== undefined && typeof project.entity !== 'string') errors.push(`${p}.entity must be a string.`);
+    if (project.earliestStart !== undefined && !isDateKey(project.earliestStart)) errors.push(`${p}.earliestStart must be a date (yyyy-MM-dd).`);
+    if (project.latestFinish !== undefined && !isDateKey(project.latestFinish)) errors.push(`${p}.latestFinish must be a date (yyyy-MM-dd).`);
+    if (typeof project.locked !== 'boolean') errors.push(`${p}.locked must be true or false.`);
+    validatePhases(project.phasesConfig, `${p}.phasesConfig`, errors, staffTypeIds);
+    validateOverrides(project.overrides, `${p}.overrides`, errors);
+    if (project.dependencies !== undefined) {
+      if (!Array.isArray(project.dependencies)) {
+        errors.push(`${p}.dependencies must be a list.`);
+      } else {
+        project.dependencies.forEach((d: any, j: number) => {
+          if (!isObject(d) || typeof d.predecessorId !== 'string' || !['finish-to-start', 'start-to-start'].includes(d.type) || !isNumber(d.lagWeeks)) {
+            errors.push(`${p}.dependencies[${j}] must have a predecessorId, a type of finish-to-start or start-to-start, and numeric lagWeeks.`);
+          }
+        });
+      }
+    }
+    if (project.milestones !== undefined) {
+      if (!Array.isArray(project.milestones)) {
+        errors.push(`${p}.milestones must be a list.`);
+      } else {
+        project.milestones.forEach((m: any, j: number) => {
+          if (!isObject(m) || typeof m.name !== 'string' || !isDateKey(m.date) || !Object.values(PhaseName).includes(m.phase) || !['start', 'end'].includes(m.edge)) {
+            errors.push(`${p}.milestones[${j}] must have a name, a date (yyyy-MM-dd), a phase, and an edge of start or end.`);
+          }
+        });
+      }
+    }
+    if (project.requiredSkills !== undefined && !Array.isArray(project.requiredSkills)) {
+      errors.push(`${p}.requiredSkills must be a list.`);
+    }
+  });
+};
+
+/**
+ * Upgrades a parsed document to the current schema version and validates it.
+ * Accepts exported files as well as the unversioned payloads written by older builds.
+ */
+export const readWorkspaceDocument = (data: any): WorkspaceImportResult => {
+  if (!isObject(data)) {
+    return { ok: false, errors: ['File does not contain a workspace object.'] };
+  }
+  if (data.format !== undefined && data.format !== WORKSPACE_FILE_FORMAT) {
+    return { ok: false, errors: [`Unrecognized file format "${data.format}".`] };
+  }
+
+  let doc = data;
+  const startVersion = isNumber(doc.version) ? doc.version : 0;
+  if (startVersion > WORKSPACE_SCHEMA_VERSION) {
+    return { ok: false, errors: [`File was written by a newer version (schema ${startVersion}); this app supports up to ${WORKSPACE_SCHEMA_VERSION}.`] };
+  }
+
+  let version = startVersion;
+  while (version < WORKSPACE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      return { ok: false, errors: [`No migration available from schema version ${version}.`] };
+    }
+    try {
+      doc = migrate(doc);
+    } catch (e) {
+      return { ok: false, errors: [`Migration from schema version ${version} failed: ${(e as Error).message}`] };
+    }
+    version++;
+  }
+
+  const errors: string[] = [];
+  validateConfig(doc.config, errors);
+  validateProjects(doc.projects, errors, getStaffTypeIds(doc.config));
+  // Only a well-formed dependency graph can be walked for cycles
+  if (errors.length === 0) {
+    const cycle = findDependencyCycle(doc.projects);
+    if (cycle) errors.push(`Project dependencies form a cycle: ${cycle.join(' → ')}.`);
+  }
+
+  if (errors.length > 0) {
+    const remaining = errors.length - MAX_REPORTED_ERRORS;
+    const reported = errors.slice(0, MAX_REPORTED_ERRORS);
+    if (remaining > 0) reported.push(`...and ${remaining} more.`);
+    return { ok: false, errors: reported };
+  }
+
+  return {
+    ok: true,
+    config: doc.config,
+    projects: doc.projects,
+    migratedFrom: startVersion === WORKSPACE_SCHEMA_VERSION ? null : startVersion
+  };
+};
+
+/**
+ * Parses the text content of a workspace file.
+ */
+export const parseWorkspaceFile = (text: string): WorkspaceImportResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, errors: [`File is not valid JSON: ${(e as Error).message}`] };
+  }
+  return readWorkspaceDocument(data);
+};
+
+export const serializeWorkspace = (config: GlobalConfig, projects: ProjectInput[]): string => {
+  const file: WorkspaceFile = {
+    format: WORKSPACE_FILE_FORMAT,
+    version: WORKSPACE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    config,
+    projects
+  };
+  return JSON.stringify(file, null, 2);
+};
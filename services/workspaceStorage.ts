@@ -0,0 +1,117 @@
+import { WorkspaceState } from '../types';
+import { readWorkspaceDocument, WORKSPACE_SCHEMA_VERSION } from './workspaceFile';
+
+const STORAGE_KEY = 'auditScheduler.workspace';
+// Each autosave lives under its own key (prefix + ISO timestamp), so saving never has to
+// read the history back; only recovery parses and validates the entries
+const AUTOSAVE_PREFIX = 'auditScheduler.autosave.';
+
+// How many rolling autosaves to keep for recovery, and how far apart they must be.
+// Without the interval every keystroke would push a snapshot and the history
+// would only ever cover the last few seconds of editing.
+const MAX_AUTOSAVES = 5;
+const AUTOSAVE_INTERVAL_MS = 60 * 1000;
+
+export interface AutosaveEntry {
+  savedAt: string; // ISO timestamp
+  state: WorkspaceState;
+}
+
+export type WorkspaceLoadResult =
+  | { status: 'empty' }
+  | { status: 'ok'; state: WorkspaceState }
+  | { status: 'corrupt'; error: string; autosaves: AutosaveEntry[] };
+
+/**
+ * Restores a persisted payload through the same migrations and validation
+ * as imported workspace files, then checks the UI state stored alongside it.
+ */
+const restoreWorkspaceState = (value: any): { state: WorkspaceState } | { error: string } => {
+  const result = readWorkspaceDocument(value);
+  if ('errors' in result) return { error: result.errors.join(' ') };
+
+  const view = value.view;
+  if (!view || typeof view.viewMode !== 'string') return { error: 'Saved view settings are missing.' };
+
+  return { state: { config: result.config, projects: result.projects, view } };
+};
+
+const toStored = (state: WorkspaceState) => ({ version: WORKSPACE_SCHEMA_VERSION, ...state });
+
+// Timestamps of the stored autosaves, newest first. ISO strings sort chronologically.
+const listAutosaveTimestamps = (): string[] => {
+  const stamps: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(AUTOSAVE_PREFIX)) stamps.push(key.slice(AUTOSAVE_PREFIX.length));
+  }
+  return stamps.sort().reverse();
+};
+
+const readAutosaves = (): AutosaveEntry[] => {
+  try {
+    // Drop any entry that is itself damaged so it is never offered for recovery
+    const entries: AutosaveEntry[] = [];
+    listAutosaveTimestamps().forEach(savedAt => {
+      try {
+        const restored = restoreWorkspaceState(JSON.parse(localStorage.getItem(AUTOSAVE_PREFIX + savedAt) || 'null'));
+        if ('state' in restored) entries.push({ savedAt, state: restored.state });
+      } catch (e) {
+        console.error(`Error reading autosave ${savedAt}`, e);
+      }
+    });
+    return entries;
+  } catch (e) {
+    console.error('Error reading autosaves', e);
+    return [];
+  }
+};
+
+/**
+ * Reads the saved workspace. A missing entry is 'empty'; an entry that
+ * cannot be parsed or fails validation is 'corrupt' and comes with the
+ * autosaves that can be offered for recovery (newest first).
+ */
+export const loadWorkspace = (): WorkspaceLoadResult => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+  } catch (e) {
+    console.error('Local storage unavailable', e);
+    return { status: 'empty' };
+  }
+  if (!raw) return { status: 'empty' };
+
+  try {
+    const restored = restoreWorkspaceState(JSON.parse(raw));
+    if ('state' in restored) {
+      return { status: 'ok', state: restored.state };
+    }
+    return { status: 'corrupt', error: restored.error, autosaves: listAutosaves() };
+  } catch (e) {
+    return { status: 'corrupt', error: `Saved workspace could not be parsed: ${(e as Error).message}`, autosaves: listAutosaves() };
+  }
+};
+
+/**
+ * Persists the workspace and, at most once per interval, adds it to the
+ * autosave history used for recovery, pruning the oldest entries by key.
+ */
+export const saveWorkspace = (state: WorkspaceState) => {
+  try {
+    const stored = JSON.stringify(toStored(state));
+    localStorage.setItem(STORAGE_KEY, stored);
+
+    const stamps = listAutosaveTimestamps();
+    const now = Date.now();
+    if (stamps.length === 0 || now - new Date(stamps[0]).getTime() >= AUTOSAVE_INTERVAL_MS) {
+      localStorage.setItem(AUTOSAVE_PREFIX + new Date(now).toISOString(), stored);
+      stamps.slice(MAX_AUTOSAVES - 1).forEach(stamp => localStorage.removeItem(AUTOSAVE_PREFIX + stamp));
+    }
+  } catch (e) {
+    // Quota exceeded or storage disabled; keep working in memory
+    console.error('Error saving workspace', e);
+  }
+};
+
+export const listAutosaves = (): AutosaveEntry[] => readAutosaves();
@@ -16,6 +16,36 @@ export interface StaffType {
   color: string;
   team?: string;
   skills?: Record<string, SkillLevel>;
+  location?: string; // Office/region, matched by location holiday calendars
+  availability?: AvailabilityEntry[];
+  exclusions?: StaffExclusion[];
+  placeholder?: PlaceholderRequirement; // Set on placeholders that only accept members with this `role`
+}
+
+// Typed placeholder: an open slot for `role`, optionally needing a minimum level in one skill
+export interface PlaceholderRequirement {
+  skill?: string;
+  minLevel?: SkillLevel;
+}
+
+// Independence / conflict-of-interest rule: the member may not be assigned to projects it matches.
+// Every field that is set has to match; dates match projects whose planned period overlaps them.
+export interface StaffExclusion {
+  id: string;
+  projectId?: string;
+  team?: string; // Audit area
+  startDate?: string; // yyyy-MM-dd
+  endDate?: string;   // yyyy-MM-dd, inclusive
+  reason: string;
+}
+
+// Leave, training or other reduced availability for one member
+export interface AvailabilityEntry {
+  id: string;
+  startDate: string; // yyyy-MM-dd
+  endDate: string;   // yyyy-MM-dd, inclusive
+  hoursPerWeek: number; // Hours still available during these days (0 = fully away)
+  reason: string;
 }
 
 export interface StaffPhaseConfig {
@@ -28,33 +58,139 @@ export interface PhaseConfig {
   percentBudget: number; // 0-100
   minWeeks: number;
   maxWeeks: number;
+  weeks?: number; // Chosen duration within [minWeeks, maxWeeks]; maxWeeks when unset
   staffAllocation: StaffPhaseConfig[];
 }
 
+// Which weeks the engine, optimizer and table cover.
+export type HorizonMode = 'year' | 'months' | 'rolling';
+
+export interface PlanningHorizon {
+  mode: HorizonMode; // 'year': calendar year, 'months': N months from Jan, 'rolling': N months from the current week
+  months: number;
+}
+
 export interface GlobalConfig {
   year: number;
+  horizon?: PlanningHorizon;
   phases: PhaseConfig[];
   staffTypes: StaffType[];
   skills: string[];
+  holidayCalendars?: HolidayCalendar[];
+  hoursGranularity?: number; // Weekly hours are planned in multiples of this (default 4)
+  overrideAnchor?: OverrideAnchor; // Where new manual edits are stored; DEFAULT_OVERRIDE_ANCHOR when unset
+  optimizationRuns?: OptimizationRun[]; // Most recent first
+  scoringProfile?: ScoringProfile; // Optimizer weights; DEFAULT_SCORING_PROFILE when unset
+  assignmentHistory?: AssignmentHistoryEntry[];
+  rotationRule?: RotationRule; // DEFAULT_ROTATION_RULE when unset
+}
+
+// One year a member worked on an auditable entity, imported or recorded from a closed plan
+export interface AssignmentHistoryEntry {
+  id: string;
+  entity: string;
+  staffTypeId: string;
+  year: number;
+  lead: boolean;
+}
+
+// How many consecutive years a member may stay on the same entity before rotating off
+export interface RotationRule {
+  maxConsecutiveYears: number;
+  enforcement: 'penalize' | 'forbid';
+  penalty: number; // Assignment score subtracted when enforcement is 'penalize'
+  leadsOnly: boolean; // Only years the member led the entity count towards the limit
+}
+
+// Weights used by Auto-Optimize. Assignment scores candidates for placeholders (higher wins);
+// timing adds up costs for a plan (lower wins).
+export interface ScoringProfile {
+  name: string;
+  teamMatch: number; // Bonus for a candidate from the project's team
+  skillLevels: Record<SkillLevel, number>; // Bonus per required skill at each level
+  overtimePenalty: number; // Per squared hour above capacity a candidate would work
+  utilizationReward: number; // Per hour that fits within a candidate's capacity
+  memberOverload: number; // Timing: per squared hour a member is above capacity in a week
+  loadSmoothing: number; // Timing: per squared hour of organization-wide weekly total
+}
+
+// One applied Auto-Optimize result; re-running its seed with the same iterations on the same plan repeats it
+export interface OptimizationRun {
+  id: string;
+  runAt: string; // ISO timestamp
+  seed: number;
+  iterations: number; // Requested; the optimizer's cooling schedule depends on it
+  iterationsRun?: number; // Where the search stopped, when before `iterations`. Missing in runs recorded before it was kept.
+  timeBudgetMs?: number; // Unset for replays, which run without a time limit
+  seedsTried: number; // Seeds compared in the run; the one with the lowest cost was kept
+  cost: number;
+  stopped: boolean; // Stopped by the user before finishing
+}
+
+export interface Holiday {
+  date: string; // yyyy-MM-dd
+  name: string;
 }
 
+// Public holidays / office closures. Applies to everyone, one team, or one location.
+export interface HolidayCalendar {
+  id: string;
+  name: string;
+  scopeType: 'organization' | 'team' | 'location';
+  scopeValue?: string; // Team or location name when not organization-wide
+  holidays: Holiday[];
+  blockFieldwork: boolean; // Don't schedule Fieldwork in weeks containing one of these holidays
+}
+
+// 'date': a manual edit stays on its calendar week; 'project': it moves with the project's start
+export type OverrideAnchor = 'date' | 'project';
+
 export interface ProjectOverrides {
-  // Key: ISO Date string (Monday) -> PhaseName
+  // Anchored to date. Key: ISO Date string (Monday) -> PhaseName
   phase?: Record<string, PhaseName>;
-  // Key: "staffTypeId-staffIndex" -> ISO Date string -> hours
+  // Anchored to date. Key: "staffTypeId-staffIndex" -> ISO Date string -> hours
   staff?: Record<string, Record<string, number>>;
+  // Relative to project. Key: "PhaseName:week", the week counted from 0 in the phase's planned weeks
+  relativePhase?: Record<string, PhaseName>;
+  // Relative to project. Key: "staffTypeId-staffIndex" -> "PhaseName:week" -> hours
+  relativeStaff?: Record<string, Record<string, number>>;
 }
 
 export interface ProjectInput {
   id: string;
   name: string;
   budgetHours: number;
-  startWeekOffset: number; // User preference: delay start by X weeks from Jan 1
+  startDate: string; // Planned start (yyyy-MM-dd); the engine schedules from the Monday of that week
+  targetEndDate?: string; // Optional target completion date (yyyy-MM-dd)
+  entity?: string; // Auditable entity for rotation history; the project name when unset
+  earliestStart?: string; // Hard limit: may not start before the week of this date (yyyy-MM-dd)
+  latestFinish?: string; // Hard limit: report due; the last week may not be after the week of this date
+  milestones?: ProjectMilestone[];
   locked: boolean;
   phasesConfig: PhaseConfig[]; // Snapshot of configuration at creation
   overrides?: ProjectOverrides;
   team?: string;
   requiredSkills?: string[];
+  dependencies?: ProjectDependency[];
+}
+
+// Fixed date a phase must start or end on; the phase edge has to fall in the week of `date`
+export interface ProjectMilestone {
+  id: string;
+  name: string;
+  date: string; // yyyy-MM-dd
+  phase: PhaseName;
+  edge: 'start' | 'end';
+}
+
+// 'finish-to-start': may start `lagWeeks` after the predecessor's last week
+// 'start-to-start': may start `lagWeeks` after the predecessor starts
+export type DependencyType = 'finish-to-start' | 'start-to-start';
+
+export interface ProjectDependency {
+  predecessorId: string;
+  type: DependencyType;
+  lagWeeks: number;
 }
 
 // Structure for the output table
@@ -63,6 +199,8 @@ export interface ScheduleCell {
   hours: number;
   phase: PhaseName | string | null;
   isOverride?: boolean;
+  overrideAnchor?: OverrideAnchor; // How the manual hours are stored, when isOverride
+  phaseAnchor?: OverrideAnchor; // Set when the week's phase was changed by hand
 }
 
 export interface ScheduleRow {
@@ -80,4 +218,20 @@ export interface ScheduleRow {
 export interface ScheduleData {
   headers: string[]; // Date strings for Mondays
   rows: ScheduleRow[];
-}
\ No newline at end of file
+}
+export type ViewMode = 'project' | 'member' | 'skill';
+
+// UI filters that are persisted alongside the plan
+export interface WorkspaceViewState {
+  viewMode: ViewMode;
+  fromDate: string;
+  toDate: string;
+  selectedTeam: string;
+}
+
+// Everything needed to restore a planning session
+export interface WorkspaceState {
+  config: GlobalConfig;
+  projects: ProjectInput[];
+  view: WorkspaceViewState;
+}